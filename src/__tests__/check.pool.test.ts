@@ -0,0 +1,160 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { CheckPool } from '@src/core/schedulers/check.pool';
+
+interface Gate {
+  promise: Promise<void>;
+  open: () => void;
+}
+
+function gate(): Gate {
+  let open!: () => void;
+  const promise = new Promise<void>((resolve) => {
+    open = resolve;
+  });
+  return { promise, open };
+}
+
+/**
+ * Lets queued microtasks and settled task chains run.
+ */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('CheckPool', () => {
+  it('rejects limits below 1', () => {
+    expect(() => new CheckPool({ concurrency: 0, perHostConcurrency: 1 })).toThrow(RangeError);
+    expect(() => new CheckPool({ concurrency: 1, perHostConcurrency: 0 })).toThrow(RangeError);
+  });
+
+  it('starts tasks enqueued together in priority order, FIFO within a priority', async () => {
+    const pool = new CheckPool({ concurrency: 1, perHostConcurrency: 1 });
+    const started: string[] = [];
+    const task = (key: string, priority: number) =>
+      pool.enqueue({
+        key,
+        priority,
+        host: `${key}.example.com`,
+        run: async () => {
+          started.push(key);
+        },
+      });
+
+    await Promise.all([task('low', 5), task('first', 1), task('second', 1), task('middle', 3)]);
+
+    expect(started).toEqual(['first', 'second', 'middle', 'low']);
+  });
+
+  it('never exceeds the overall concurrency', async () => {
+    const pool = new CheckPool({ concurrency: 2, perHostConcurrency: 2 });
+    const gates = [gate(), gate(), gate()];
+    gates.forEach((g, i) =>
+      pool.enqueue({ key: `task-${i}`, priority: 0, host: `host-${i}`, run: () => g.promise })
+    );
+
+    await flush();
+    expect(pool.active).toBe(2);
+    expect(pool.queued).toBe(1);
+
+    gates[0].open();
+    await flush();
+    expect(pool.active).toBe(2);
+    expect(pool.queued).toBe(0);
+  });
+
+  it('skips a task whose host is at its limit and runs the next host instead', async () => {
+    const pool = new CheckPool({ concurrency: 2, perHostConcurrency: 1 });
+    const slow = gate();
+    const started: string[] = [];
+    const task = (
+      key: string,
+      priority: number,
+      host: string,
+      run: () => Promise<void> = async () => undefined
+    ) =>
+      pool.enqueue({
+        key,
+        priority,
+        host,
+        run: () => {
+          started.push(key);
+          return run();
+        },
+      });
+
+    task('slow-1', 0, 'slow.example.com', () => slow.promise);
+    task('slow-2', 0, 'slow.example.com');
+    const other = task('other', 5, 'other.example.com');
+
+    await other;
+    expect(started).toEqual(['slow-1', 'other']);
+    expect(pool.queued).toBe(1);
+
+    slow.open();
+    await flush();
+    expect(started).toEqual(['slow-1', 'other', 'slow-2']);
+  });
+
+  it('ignores a key that is already queued or running', async () => {
+    const pool = new CheckPool({ concurrency: 1, perHostConcurrency: 1 });
+    const running = gate();
+    const task = { key: 'form-1', priority: 0, host: 'example.com', run: () => running.promise };
+
+    expect(pool.enqueue(task)).toBeInstanceOf(Promise);
+    expect(pool.enqueue(task)).toBeUndefined();
+
+    await flush();
+    expect(pool.active).toBe(1);
+    expect(pool.enqueue(task)).toBeUndefined();
+
+    running.open();
+    await flush();
+    expect(pool.enqueue(task)).toBeInstanceOf(Promise);
+  });
+
+  it('frees the slot when a task fails', async () => {
+    const pool = new CheckPool({ concurrency: 1, perHostConcurrency: 1 });
+    const failed = pool.enqueue({
+      key: 'failing',
+      priority: 0,
+      host: 'example.com',
+      run: async () => {
+        throw new Error('boom');
+      },
+    });
+
+    await expect(failed).resolves.toBeUndefined();
+    expect(pool.active).toBe(0);
+  });
+
+  it('drops waiting tasks on clear without touching the running one', async () => {
+    const pool = new CheckPool({ concurrency: 1, perHostConcurrency: 1 });
+    const running = gate();
+    let ranWaiting = false;
+
+    const first = pool.enqueue({
+      key: 'running',
+      priority: 0,
+      host: 'example.com',
+      run: () => running.promise,
+    });
+    const waiting = pool.enqueue({
+      key: 'waiting',
+      priority: 1,
+      host: 'example.com',
+      run: async () => {
+        ranWaiting = true;
+      },
+    });
+
+    await flush();
+    pool.clear();
+    await expect(waiting).resolves.toBeUndefined();
+    expect(pool.queued).toBe(0);
+    expect(pool.active).toBe(1);
+
+    running.open();
+    await first;
+    await flush();
+    expect(ranWaiting).toBe(false);
+  });
+});
@@ -0,0 +1,206 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import { FeedWatcher } from '@src/infrastructure/watchers/feed.watcher';
+import { CircuitBreaker } from '@src/shared/api-clients/circuit-breaker.api-client';
+import { WatcherType } from '@src/shared/enums/watcher-type.enum';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+import { HashGenerator } from '@src/shared/utils/hash.generator.util';
+
+import { FakeFetcher, MemoryStateStore, testForm } from './helpers/watcher.fakes';
+
+function rss(...items: { guid?: string; title: string; link?: string; date?: string }[]) {
+  const entries = items.map(
+    (item) => `
+      <item>
+        <title>${item.title}</title>
+        ${item.link ? `<link>${item.link}</link>` : ''}
+        ${item.guid ? `<guid>${item.guid}</guid>` : ''}
+        ${item.date ? `<pubDate>${item.date}</pubDate>` : ''}
+      </item>`
+  );
+  return `<?xml version="1.0"?><rss version="2.0"><channel><title>News</title>${entries.join('')}</channel></rss>`;
+}
+
+const atom = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Releases</title>
+  <entry>
+    <title>v2.0</title>
+    <id>urn:release:2</id>
+    <link rel="alternate" href="/releases/2"/>
+    <link rel="self" href="/api/releases/2"/>
+    <updated>2026-10-18T10:00:00Z</updated>
+  </entry>
+  <entry>
+    <title>v1.0</title>
+    <id>urn:release:1</id>
+    <link href="https://example.com/releases/1"/>
+    <published>2026-10-01T10:00:00Z</published>
+  </entry>
+</feed>`;
+
+const rdf = `<?xml version="1.0"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+         xmlns="http://purl.org/rss/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel rdf:about="https://example.com/"><title>Board</title></channel>
+  <item rdf:about="https://example.com/posts/1">
+    <title>Opening hours</title>
+    <link>https://example.com/posts/1</link>
+    <dc:date>2026-10-19T08:00:00Z</dc:date>
+  </item>
+</rdf:RDF>`;
+
+describe('FeedWatcher', () => {
+  let state: MemoryStateStore;
+  let fetcher: FakeFetcher;
+  let watcher: FeedWatcher;
+  const form = testForm({
+    watcherType: WatcherType.Feed,
+    url: 'https://example.com/feed.xml',
+    lastCheckedAt: '2026-10-19T07:00:00.000Z',
+  });
+
+  beforeEach(() => {
+    state = new MemoryStateStore();
+    fetcher = new FakeFetcher();
+    watcher = new FeedWatcher(
+      new CircuitBreaker(),
+      state,
+      fetcher.asContentFetcher(),
+      new HashGenerator(),
+      new ErrorLogger('FeedWatcher')
+    );
+  });
+
+  /**
+   * Runs a check against an Atom feed with one new entry and returns its new item.
+   */
+  async function newAtomItem(content: string) {
+    fetcher.content = content.replace(/<entry>[\s\S]*?<\/entry>/, '');
+    await watcher.check(form);
+    fetcher.content = content;
+    const result = await watcher.check(form);
+    return result.newItems;
+  }
+
+  it('records the current items as a baseline on the first check', async () => {
+    fetcher.content = rss({ guid: '1', title: 'First' }, { guid: '2', title: 'Second' });
+    const result = await watcher.check(form);
+
+    expect(result.status).toBe('initial');
+    expect(result.newItems).toBeUndefined();
+    expect(result.acknowledge).toBeUndefined();
+    expect(JSON.parse(state.values.get('feed:form-1:seen_items') ?? '')).toEqual(['1', '2']);
+  });
+
+  it('requests feed content types and skips content cached before the last check', async () => {
+    fetcher.content = rss({ guid: '1', title: 'First' });
+    await watcher.check(form);
+
+    expect(fetcher.calls[0].options.headers).toMatchObject({
+      Accept: expect.stringContaining('application/rss+xml'),
+    });
+    expect(fetcher.calls[0].newerThan).toBe(form.lastCheckedAt);
+  });
+
+  it('reports items that were not in the feed before', async () => {
+    fetcher.content = rss({ guid: '1', title: 'First' });
+    await watcher.check(form);
+
+    fetcher.content = rss(
+      {
+        guid: '2',
+        title: 'Second',
+        link: 'https://example.com/2',
+        date: 'Mon, 19 Oct 2026 08:00:00 GMT',
+      },
+      { guid: '1', title: 'First' }
+    );
+    const result = await watcher.check(form);
+
+    expect(result.status).toBe('changed');
+    expect(result.newItems).toEqual([
+      {
+        title: 'Second',
+        link: 'https://example.com/2',
+        publishedAt: '2026-10-19T08:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('keeps reporting new items until they are acknowledged', async () => {
+    fetcher.content = rss({ guid: '1', title: 'First' });
+    await watcher.check(form);
+
+    fetcher.content = rss({ guid: '2', title: 'Second' }, { guid: '1', title: 'First' });
+    const held = await watcher.check(form);
+    const repeated = await watcher.check(form);
+    expect(repeated.newItems).toEqual(held.newItems);
+
+    await repeated.acknowledge?.();
+    const after = await watcher.check(form);
+    expect(after.status).toBe('unchanged');
+    expect(after.newItems).toBeUndefined();
+  });
+
+  it('does not report an item that dropped out and came back', async () => {
+    fetcher.content = rss({ guid: '1', title: 'First' }, { guid: '2', title: 'Second' });
+    await watcher.check(form);
+
+    fetcher.content = rss({ guid: '2', title: 'Second' });
+    await watcher.check(form);
+    fetcher.content = rss({ guid: '1', title: 'First' }, { guid: '2', title: 'Second' });
+
+    expect((await watcher.check(form)).status).toBe('unchanged');
+  });
+
+  it('identifies RSS items without a guid by their link, then title and date', async () => {
+    fetcher.content = rss({ title: 'Linked', link: 'https://example.com/a' }, { title: 'Bare' });
+    await watcher.check(form);
+
+    expect(JSON.parse(state.values.get('feed:form-1:seen_items') ?? '')).toEqual([
+      'https://example.com/a',
+      'Bare|',
+    ]);
+  });
+
+  it('parses Atom entries with their alternate link and date', async () => {
+    expect(await newAtomItem(atom)).toEqual([
+      {
+        title: 'v2.0',
+        link: 'https://example.com/releases/2',
+        publishedAt: '2026-10-18T10:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('parses RSS 1.0 (RDF) items identified by rdf:about', async () => {
+    fetcher.content = rdf;
+    await watcher.check(form);
+    expect(JSON.parse(state.values.get('feed:form-1:seen_items') ?? '')).toEqual([
+      'https://example.com/posts/1',
+    ]);
+
+    state.values.set('feed:form-1:seen_items', '[]');
+    const result = await watcher.check(form);
+    expect(result.newItems).toEqual([
+      {
+        title: 'Opening hours',
+        link: 'https://example.com/posts/1',
+        publishedAt: '2026-10-19T08:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('starts a new baseline when the stored state is unreadable', async () => {
+    state.values.set('feed:form-1:seen_items', 'not json');
+    fetcher.content = rss({ guid: '1', title: 'First' });
+
+    expect((await watcher.check(form)).status).toBe('initial');
+  });
+
+  it('rejects a response that is not a feed', async () => {
+    fetcher.content = '<html><body>Not a feed</body></html>';
+    await expect(watcher.check(form)).rejects.toThrow('not an RSS or Atom feed');
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from '@jest/globals';
+import { DateTime } from 'luxon';
+
+import { FormSchedule } from '@src/core/schedulers/form.schedule';
+import { Form } from '@src/shared/types/types';
+
+type ScheduledForm = Parameters<typeof FormSchedule.nextRun>[0];
+
+function form(overrides: Partial<Form> = {}): ScheduledForm {
+  return {
+    id: 'form-1',
+    intervalSeconds: 60,
+    startDate: '2026-10-01',
+    endDate: '2026-12-31',
+    weekdays: [],
+    activeFrom: '09:00',
+    activeTo: '17:00',
+    timezone: 'UTC',
+    ...overrides,
+  };
+}
+
+const at = (iso: string) => DateTime.fromISO(iso, { zone: 'UTC' });
+
+describe('FormSchedule.isActive', () => {
+  it('is active inside the daily window only', () => {
+    expect(FormSchedule.isActive(form(), at('2026-10-19T09:00:00'))).toBe(true);
+    expect(FormSchedule.isActive(form(), at('2026-10-19T17:00:00'))).toBe(true);
+    expect(FormSchedule.isActive(form(), at('2026-10-19T08:59:59'))).toBe(false);
+    expect(FormSchedule.isActive(form(), at('2026-10-19T17:00:01'))).toBe(false);
+  });
+
+  it('treats identical bounds as active all day', () => {
+    const allDay = form({ activeFrom: '00:00', activeTo: '00:00' });
+    expect(FormSchedule.isActive(allDay, at('2026-10-19T03:00:00'))).toBe(true);
+    expect(FormSchedule.isActive(allDay, at('2026-10-19T23:59:59'))).toBe(true);
+  });
+
+  it('assigns the early part of an overnight window to the day it started on', () => {
+    const fridayNights = form({ activeFrom: '22:00', activeTo: '06:00', weekdays: ['friday'] });
+
+    // 2026-10-16 is a Friday
+    expect(FormSchedule.isActive(fridayNights, at('2026-10-16T23:00:00'))).toBe(true);
+    expect(FormSchedule.isActive(fridayNights, at('2026-10-17T05:00:00'))).toBe(true);
+    expect(FormSchedule.isActive(fridayNights, at('2026-10-16T05:00:00'))).toBe(false);
+    expect(FormSchedule.isActive(fridayNights, at('2026-10-17T23:00:00'))).toBe(false);
+    expect(FormSchedule.isActive(fridayNights, at('2026-10-17T12:00:00'))).toBe(false);
+  });
+
+  it('accepts three-letter weekday names in any case', () => {
+    const weekdays = form({ weekdays: ['Mon', 'TUE'] });
+    expect(FormSchedule.isActive(weekdays, at('2026-10-19T10:00:00'))).toBe(true);
+    expect(FormSchedule.isActive(weekdays, at('2026-10-21T10:00:00'))).toBe(false);
+  });
+
+  it('includes the whole start and end dates', () => {
+    const bounded = form({ startDate: '2026-10-19', endDate: '2026-10-20' });
+    expect(FormSchedule.isActive(bounded, at('2026-10-18T12:00:00'))).toBe(false);
+    expect(FormSchedule.isActive(bounded, at('2026-10-19T09:00:00'))).toBe(true);
+    expect(FormSchedule.isActive(bounded, at('2026-10-20T17:00:00'))).toBe(true);
+    expect(FormSchedule.isActive(bounded, at('2026-10-21T12:00:00'))).toBe(false);
+  });
+
+  it("evaluates the window in the form's timezone", () => {
+    const berlin = form({ timezone: 'Europe/Berlin' });
+    // 08:30 UTC is 10:30 in Berlin (CEST)
+    expect(FormSchedule.isActive(berlin, at('2026-10-19T08:30:00'))).toBe(true);
+    // 16:30 UTC is 18:30 in Berlin
+    expect(FormSchedule.isActive(berlin, at('2026-10-19T16:30:00'))).toBe(false);
+  });
+});
+
+describe('FormSchedule.nextRun', () => {
+  it('runs every intervalSeconds inside the window', () => {
+    const fast = form({ intervalSeconds: 15 });
+    expect(FormSchedule.nextRun(fast, at('2026-10-19T10:00:00'))?.toISO()).toBe(
+      at('2026-10-19T10:00:15').toISO()
+    );
+  });
+
+  it('moves an interval run outside the window to the next window opening', () => {
+    const weekdays = form({ intervalSeconds: 3600, weekdays: ['monday', 'tuesday'] });
+    expect(FormSchedule.nextRun(weekdays, at('2026-10-19T16:30:00'))?.toISO()).toBe(
+      at('2026-10-20T09:00:00').toISO()
+    );
+    // Tuesday evening skips to the next Monday
+    expect(FormSchedule.nextRun(weekdays, at('2026-10-20T16:30:00'))?.toISO()).toBe(
+      at('2026-10-26T09:00:00').toISO()
+    );
+  });
+
+  it('keeps an overnight window running past midnight', () => {
+    const nights = form({ intervalSeconds: 600, activeFrom: '22:00', activeTo: '02:00' });
+    expect(FormSchedule.nextRun(nights, at('2026-10-19T23:55:00'))?.toISO()).toBe(
+      at('2026-10-20T00:05:00').toISO()
+    );
+    expect(FormSchedule.nextRun(nights, at('2026-10-20T01:55:00'))?.toISO()).toBe(
+      at('2026-10-20T22:00:00').toISO()
+    );
+  });
+
+  it('returns null once the end date has passed', () => {
+    const ending = form({ endDate: '2026-10-19' });
+    expect(FormSchedule.nextRun(ending, at('2026-10-19T16:59:30'))).toBeNull();
+    expect(FormSchedule.nextRun(ending, at('2026-10-20T10:00:00'))).toBeNull();
+  });
+
+  it('waits for the start date', () => {
+    const upcoming = form({ startDate: '2026-11-02' });
+    expect(FormSchedule.nextRun(upcoming, at('2026-10-19T10:00:00'))?.toISO()).toBe(
+      at('2026-11-02T09:00:00').toISO()
+    );
+  });
+
+  it('uses the cron schedule instead of the interval', () => {
+    const hourly = form({ cronSchedule: '0 * * * *' });
+    expect(FormSchedule.nextRun(hourly, at('2026-10-19T10:20:00'))?.toISO()).toBe(
+      at('2026-10-19T11:00:00').toISO()
+    );
+  });
+
+  it('looks ahead to the first cron occurrence inside the window', () => {
+    const hourly = form({ cronSchedule: '0 * * * *', weekdays: ['monday'] });
+    // Saturday evening: the next occurrence inside the window is Monday at 09:00
+    expect(FormSchedule.nextRun(hourly, at('2026-10-17T18:30:00'))?.toISO()).toBe(
+      at('2026-10-19T09:00:00').toISO()
+    );
+  });
+
+  it('counts a cron occurrence on the window boundary', () => {
+    const daily = form({ cronSchedule: '0 9 * * *' });
+    expect(FormSchedule.nextRun(daily, at('2026-10-19T12:00:00'))?.toISO()).toBe(
+      at('2026-10-20T09:00:00').toISO()
+    );
+  });
+
+  it('returns null when no cron occurrence falls inside the window before the end date', () => {
+    const never = form({ cronSchedule: '30 3 * * *', endDate: '2026-10-25' });
+    expect(FormSchedule.nextRun(never, at('2026-10-19T10:00:00'))).toBeNull();
+  });
+
+  it('rejects forms without a valid interval or cron schedule', () => {
+    expect(() =>
+      FormSchedule.nextRun(form({ intervalSeconds: 0 }), at('2026-10-19T10:00:00'))
+    ).toThrow('no valid intervalSeconds');
+    expect(() =>
+      FormSchedule.nextRun(form({ cronSchedule: 'not a cron' }), at('2026-10-19T10:00:00'))
+    ).toThrow('Invalid cron schedule');
+  });
+});
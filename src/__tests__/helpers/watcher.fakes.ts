@@ -0,0 +1,74 @@
+import { compareValues, CompareResult, StateStore } from '@src/infrastructure/state';
+import { WatcherType } from '@src/shared/enums/watcher-type.enum';
+import { FetchResult, Form } from '@src/shared/types/types';
+import { ContentFetcher } from '@src/shared/utils/content.fetcher.util';
+
+export class MemoryStateStore implements StateStore {
+  readonly values = new Map<string, string>();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.values.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  async compareAndSet(key: string, value: string): Promise<CompareResult> {
+    const result = compareValues(this.values.get(key), value);
+    this.values.set(key, value);
+    return result;
+  }
+}
+
+type FetchOptions = NonNullable<Parameters<ContentFetcher['fetch']>[1]>;
+
+export interface FetchCall {
+  url: string;
+  options: FetchOptions;
+  newerThan?: string;
+}
+
+/**
+ * Fetcher answering every request with `content`; change it between checks to simulate
+ * the endpoint changing. Requests are recorded in `calls`.
+ */
+export class FakeFetcher {
+  readonly calls: FetchCall[] = [];
+
+  constructor(public content = '') {}
+
+  async fetch(url: string, options: FetchOptions = {}, newerThan?: string): Promise<FetchResult> {
+    this.calls.push({ url, options, newerThan });
+    return { content: this.content, finalUrl: url };
+  }
+
+  asContentFetcher(): ContentFetcher {
+    return this as unknown as ContentFetcher;
+  }
+}
+
+export function testForm(overrides: Partial<Form> = {}): Form {
+  return {
+    id: 'form-1',
+    name: 'Test form',
+    url: 'https://example.com/resource',
+    watcherType: WatcherType.GoogleForm,
+    watcherConfig: {},
+    intervalSeconds: 60,
+    startDate: '2026-10-01',
+    endDate: '2026-12-31',
+    weekdays: [],
+    activeFrom: '00:00',
+    activeTo: '00:00',
+    enabled: true,
+    priority: 0,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import { JsonApiWatcher } from '@src/infrastructure/watchers/json-api.watcher';
+import { CircuitBreaker } from '@src/shared/api-clients/circuit-breaker.api-client';
+import { WatcherType } from '@src/shared/enums/watcher-type.enum';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+import { HashGenerator } from '@src/shared/utils/hash.generator.util';
+
+import { FakeFetcher, MemoryStateStore, testForm } from './helpers/watcher.fakes';
+
+describe('JsonApiWatcher', () => {
+  let state: MemoryStateStore;
+  let fetcher: FakeFetcher;
+  let watcher: JsonApiWatcher;
+
+  const form = (watcherConfig: Record<string, unknown>) =>
+    testForm({
+      watcherType: WatcherType.JsonApi,
+      url: 'https://api.example.com/slots',
+      watcherConfig,
+      lastCheckedAt: '2026-10-19T07:00:00.000Z',
+    });
+
+  const respond = (json: unknown) => {
+    fetcher.content = JSON.stringify(json);
+  };
+
+  beforeEach(() => {
+    state = new MemoryStateStore();
+    fetcher = new FakeFetcher();
+    watcher = new JsonApiWatcher(
+      new CircuitBreaker(),
+      state,
+      fetcher.asContentFetcher(),
+      new HashGenerator(),
+      new ErrorLogger('JsonApiWatcher')
+    );
+  });
+
+  describe('equals', () => {
+    const registration = form({
+      expression: '$.registration.status',
+      condition: 'equals',
+      value: 'open',
+    });
+
+    it('is open while the selected value equals the configured one', async () => {
+      respond({ registration: { status: 'open' } });
+      expect((await watcher.check(registration)).status).toBe('open');
+
+      respond({ registration: { status: 'closed' } });
+      expect((await watcher.check(registration)).status).toBe('closed');
+    });
+
+    it('compares objects and arrays by value', async () => {
+      const deep = form({ expression: '$.tags', condition: 'equals', value: ['a', 'b'] });
+      respond({ tags: ['a', 'b'] });
+      expect((await watcher.check(deep)).status).toBe('open');
+
+      respond({ tags: ['b', 'a'] });
+      expect((await watcher.check(deep)).status).toBe('closed');
+    });
+  });
+
+  describe('greater-than and less-than', () => {
+    it('compares the selected number with the configured value', async () => {
+      const available = form({ expression: '$.available', condition: 'greater-than', value: 0 });
+      respond({ available: 3 });
+      expect((await watcher.check(available)).status).toBe('open');
+
+      respond({ available: 0 });
+      expect((await watcher.check(available)).status).toBe('closed');
+    });
+
+    it('accepts numeric strings', async () => {
+      const price = form({ expression: '$.price', condition: 'less-than', value: 100 });
+      respond({ price: '99.5' });
+      expect((await watcher.check(price)).status).toBe('open');
+    });
+
+    it('rejects a value that is not a number', async () => {
+      const price = form({ expression: '$.price', condition: 'greater-than', value: 1 });
+      respond({ price: 'free' });
+      await expect(watcher.check(price)).rejects.toThrow('did not select a number');
+    });
+  });
+
+  describe('changed and array-length-changed', () => {
+    it('starts from a baseline and reports changes of the selected value only', async () => {
+      const slots = form({ expression: '$.slots' });
+
+      respond({ slots: [1, 2], fetchedAt: 1 });
+      expect((await watcher.check(slots)).status).toBe('initial');
+
+      respond({ slots: [1, 2], fetchedAt: 2 });
+      expect((await watcher.check(slots)).status).toBe('unchanged');
+
+      respond({ slots: [1, 2, 3], fetchedAt: 3 });
+      expect((await watcher.check(slots)).status).toBe('changed');
+    });
+
+    it('counts several matches as an array', async () => {
+      const names = form({ expression: '$.slots[*].name', condition: 'array-length-changed' });
+
+      respond({ slots: [{ name: 'a' }, { name: 'b' }] });
+      expect((await watcher.check(names)).status).toBe('initial');
+      expect(state.values.get('json_api:form-1:prev_length')).toBe('2');
+
+      respond({ slots: [{ name: 'c' }, { name: 'd' }] });
+      expect((await watcher.check(names)).status).toBe('unchanged');
+    });
+  });
+
+  describe('request options', () => {
+    it('sends GET with a JSON Accept header by default', async () => {
+      respond({ ok: true });
+      await watcher.check(form({ expression: '$.ok' }));
+
+      expect(fetcher.calls[0]).toEqual({
+        url: 'https://api.example.com/slots',
+        options: { method: 'GET', headers: { Accept: 'application/json' }, body: undefined },
+        newerThan: '2026-10-19T07:00:00.000Z',
+      });
+    });
+
+    it('sends object bodies as JSON and lets explicit headers win', async () => {
+      respond({ ok: true });
+      await watcher.check(
+        form({
+          expression: '$.ok',
+          method: 'POST',
+          headers: { accept: 'application/vnd.api+json', Authorization: 'Bearer token' },
+          body: { date: '2026-10-20' },
+        })
+      );
+
+      expect(fetcher.calls[0].options).toEqual({
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          accept: 'application/vnd.api+json',
+          Authorization: 'Bearer token',
+        },
+        body: '{"date":"2026-10-20"}',
+      });
+    });
+
+    it('sends string bodies as they are', async () => {
+      respond({ ok: true });
+      await watcher.check(form({ expression: '$.ok', method: 'POST', body: 'query=slots' }));
+
+      expect(fetcher.calls[0].options).toEqual({
+        method: 'POST',
+        headers: { Accept: 'application/json' },
+        body: 'query=slots',
+      });
+    });
+  });
+
+  describe('errors', () => {
+    it('rejects an invalid watcherConfig', async () => {
+      respond({ ok: true });
+      await expect(
+        watcher.check(form({ expression: '$.ok', condition: 'equals' }))
+      ).rejects.toThrow('Invalid watcherConfig for json-api watcher');
+      expect(fetcher.calls).toHaveLength(0);
+    });
+
+    it('rejects a response that is not JSON', async () => {
+      fetcher.content = '<html></html>';
+      await expect(watcher.check(form({ expression: '$.ok' }))).rejects.toThrow(
+        'is not valid JSON'
+      );
+    });
+
+    it('rejects an expression that matches nothing', async () => {
+      respond({ ok: true });
+      await expect(watcher.check(form({ expression: '$.missing' }))).rejects.toThrow(
+        'did not match the response'
+      );
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { detectTransition } from '@src/core/services/notification-dispatcher.service';
+import { WatcherType } from '@src/shared/enums/watcher-type.enum';
+import { WatcherResult } from '@src/shared/types/types';
+
+const result = (status: WatcherResult['status']): WatcherResult => ({ status, responseTime: 10 });
+
+describe('detectTransition', () => {
+  describe('first check', () => {
+    it.each(['open', 'changed', 'initial', 'unchanged'] as const)(
+      'reports a first %s result',
+      (status) => {
+        expect(detectTransition(undefined, result(status))).toEqual({
+          notify: true,
+          reason: 'initial',
+          status,
+        });
+      }
+    );
+
+    it('stays quiet about a form that starts out closed', () => {
+      expect(detectTransition(undefined, result('closed'), WatcherType.GoogleForm)).toEqual({
+        notify: false,
+        reason: 'initial',
+        status: 'closed',
+      });
+      expect(detectTransition(undefined, result('closed')).notify).toBe(false);
+    });
+
+    it('reports an http-status site that is down on its first check', () => {
+      expect(detectTransition(undefined, result('closed'), WatcherType.HttpStatus)).toEqual({
+        notify: true,
+        reason: 'initial',
+        status: 'closed',
+      });
+    });
+  });
+
+  it('reports a form opening', () => {
+    expect(detectTransition('closed', result('open'))).toEqual({
+      notify: true,
+      reason: 'opened',
+      previousStatus: 'closed',
+      status: 'open',
+    });
+  });
+
+  it('reports a form closing', () => {
+    expect(detectTransition('open', result('closed'))).toEqual({
+      notify: true,
+      reason: 'closed',
+      previousStatus: 'open',
+      status: 'closed',
+    });
+  });
+
+  it('reports a content change whatever the previous status was', () => {
+    expect(detectTransition('unchanged', result('changed'))).toMatchObject({
+      notify: true,
+      reason: 'changed',
+    });
+    expect(detectTransition('changed', result('changed'))).toMatchObject({
+      notify: true,
+      reason: 'changed',
+    });
+  });
+
+  it.each<[string, WatcherResult['status']]>([
+    ['open', 'open'],
+    ['closed', 'closed'],
+    ['changed', 'unchanged'],
+    ['unchanged', 'unchanged'],
+  ])('does not report %s followed by %s', (previousStatus, status) => {
+    expect(detectTransition(previousStatus, result(status))).toEqual({
+      notify: false,
+      previousStatus,
+      status,
+    });
+  });
+
+  it('does not report a lost baseline on a form that was checked before', () => {
+    expect(detectTransition('open', result('initial'))).toEqual({
+      notify: false,
+      previousStatus: 'open',
+      status: 'initial',
+    });
+  });
+
+  it('treats the first open result after an initial one as opened', () => {
+    expect(detectTransition('initial', result('open'))).toMatchObject({
+      notify: true,
+      reason: 'opened',
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from '@jest/globals';
+
+import { NotificationThrottle } from '@src/core/services/notification-throttle.service';
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+const OPENED = 'change-notification:closed:open';
+const CLOSED = 'change-notification:open:closed';
+
+const start = Date.parse('2026-10-19T08:00:00Z');
+
+function throttle(dailyLimit = 20): NotificationThrottle {
+  return new NotificationThrottle({ cooldownMs: HOUR, dailyLimit });
+}
+
+/**
+ * Checks and, when allowed, records a notification; returns the decision.
+ */
+function send(subject: NotificationThrottle, kind: string, now: number) {
+  const decision = subject.check('form:1', undefined, kind, undefined, now);
+  if (decision === 'allow') subject.recordSent('form:1', kind, now);
+  return decision;
+}
+
+describe('NotificationThrottle', () => {
+  it('holds back a repeat of the same kind within the cooldown', () => {
+    const subject = throttle();
+    expect(send(subject, OPENED, start)).toBe('allow');
+    expect(send(subject, OPENED, start + 30 * MINUTE)).toBe('cooldown');
+    expect(send(subject, OPENED, start + HOUR)).toBe('allow');
+  });
+
+  it('lets a different kind through right away', () => {
+    const subject = throttle();
+    expect(send(subject, OPENED, start)).toBe('allow');
+    expect(send(subject, CLOSED, start + MINUTE)).toBe('allow');
+  });
+
+  it('suppresses a form flapping between open and closed', () => {
+    const subject = throttle();
+    const decisions = Array.from({ length: 8 }, (_, i) =>
+      send(subject, i % 2 === 0 ? OPENED : CLOSED, start + i * MINUTE)
+    );
+
+    expect(decisions.filter((decision) => decision === 'allow')).toHaveLength(2);
+    expect(decisions.slice(2).every((decision) => decision === 'cooldown')).toBe(true);
+  });
+
+  it('reports the daily limit once, then exhausts it until the next day', () => {
+    const subject = throttle(2);
+    expect(send(subject, OPENED, start)).toBe('allow');
+    expect(send(subject, CLOSED, start + MINUTE)).toBe('allow');
+
+    expect(send(subject, 'other', start + 2 * MINUTE)).toBe('limit-reached');
+    subject.markLimitNotified('form:1', start + 2 * MINUTE);
+    expect(subject.isLimitNotified('form:1', start + 2 * MINUTE)).toBe(true);
+    expect(send(subject, 'other', start + 3 * MINUTE)).toBe('limit-exhausted');
+
+    const nextDay = Date.parse('2026-10-20T00:00:00Z');
+    expect(subject.isLimitNotified('form:1', nextDay)).toBe(false);
+    expect(send(subject, 'other', nextDay)).toBe('allow');
+  });
+
+  it('starts a new day in the configured timezone', () => {
+    const subject = new NotificationThrottle({
+      cooldownMs: 0,
+      dailyLimit: 1,
+      timezone: 'America/New_York',
+    });
+    // 02:00 UTC on the 20th is still the 19th in New York
+    expect(send(subject, OPENED, Date.parse('2026-10-19T12:00:00Z'))).toBe('allow');
+    expect(send(subject, CLOSED, Date.parse('2026-10-20T02:00:00Z'))).toBe('limit-reached');
+    expect(send(subject, CLOSED, Date.parse('2026-10-20T05:00:00Z'))).toBe('allow');
+  });
+
+  it('seeds the cooldown and the daily count from the last known send time', () => {
+    const subject = throttle(1);
+    const lastSentAt = new Date(start - 10 * MINUTE).toISOString();
+
+    expect(subject.check('form:1', undefined, OPENED, lastSentAt, start)).toBe('limit-reached');
+
+    const relaxed = throttle();
+    expect(relaxed.check('form:1', undefined, OPENED, lastSentAt, start)).toBe('cooldown');
+    expect(relaxed.check('form:1', undefined, CLOSED, lastSentAt, start)).toBe('cooldown');
+    expect(relaxed.check('form:1', undefined, OPENED, lastSentAt, start + HOUR)).toBe('allow');
+  });
+
+  it('ignores the seed once the key has state', () => {
+    const subject = throttle();
+    expect(subject.check('form:1', undefined, OPENED, undefined, start)).toBe('allow');
+    const lastSentAt = new Date(start).toISOString();
+    expect(subject.check('form:1', undefined, OPENED, lastSentAt, start + MINUTE)).toBe('allow');
+  });
+
+  it('does not count a seed from an earlier day against today', () => {
+    const subject = throttle(1);
+    const yesterday = new Date(start - 20 * HOUR).toISOString();
+    expect(subject.check('form:1', undefined, OPENED, yesterday, start)).toBe('allow');
+  });
+
+  it('applies per-key limits and forgets a key on reset', () => {
+    const subject = throttle();
+    subject.recordSent('notifier:1', OPENED, start);
+
+    const strict = { cooldownMs: 2 * HOUR, dailyLimit: 20 };
+    expect(subject.check('notifier:1', strict, OPENED, undefined, start + HOUR)).toBe('cooldown');
+    expect(subject.check('notifier:1', undefined, OPENED, undefined, start + HOUR)).toBe('allow');
+
+    subject.reset('notifier:1');
+    expect(subject.check('notifier:1', strict, OPENED, undefined, start + MINUTE)).toBe('allow');
+  });
+});
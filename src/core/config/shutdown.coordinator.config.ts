@@ -0,0 +1,109 @@
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+import { log } from '@src/shared/utils/logger.util';
+
+type ShutdownSignal = 'SIGTERM' | 'SIGINT' | 'SIGHUP';
+
+export interface ShutdownStep {
+  name: string;
+
+  /**
+   * Runs the step with the time left until the shutdown deadline. Steps still running
+   * at the deadline are abandoned.
+   * @returns False when the step could not finish its work in time.
+   */
+  run(remainingMs: number): Promise<boolean | void> | boolean | void;
+}
+
+export interface ShutdownCoordinatorOptions {
+  /**
+   * Overall deadline for all steps
+   */
+  timeoutMs: number;
+
+  /**
+   * Called with the exit code once shutdown finished
+   * @default process.exit
+   */
+  exit?: (code: number) => void;
+}
+
+/**
+ * Runs shutdown steps in order on SIGTERM/SIGINT, sharing a single deadline. Steps that
+ * fail or run out of time are logged and the remaining steps still run, so cleanup
+ * always happens. A second signal exits immediately.
+ */
+export class ShutdownCoordinator {
+  private readonly steps: ShutdownStep[] = [];
+  private readonly exit: (code: number) => void;
+  private shutdownPromise: Promise<void> | null = null;
+
+  constructor(private readonly options: ShutdownCoordinatorOptions) {
+    this.exit = options.exit ?? ((code) => process.exit(code));
+  }
+
+  /**
+   * Adds a step; steps run in the order they were added.
+   */
+  addStep(name: string, run: ShutdownStep['run']): this {
+    this.steps.push({ name, run });
+    return this;
+  }
+
+  listen(signals: ShutdownSignal[] = ['SIGTERM', 'SIGINT']): void {
+    for (const signal of signals) {
+      process.on(signal, () => {
+        if (this.shutdownPromise) {
+          log.warn(`Received ${signal} during shutdown, exiting immediately`);
+          this.exit(1);
+          return;
+        }
+        void this.shutdown(signal);
+      });
+    }
+  }
+
+  /**
+   * Runs all steps once, then exits. Concurrent calls share the same shutdown.
+   */
+  shutdown(reason: string): Promise<void> {
+    this.shutdownPromise ??= this.runSteps(reason);
+    return this.shutdownPromise;
+  }
+
+  private async runSteps(reason: string): Promise<void> {
+    const deadline = Date.now() + this.options.timeoutMs;
+    let clean = true;
+
+    log.info(`Shutting down (${reason}), waiting up to ${this.options.timeoutMs}ms`);
+
+    for (const step of this.steps) {
+      const remainingMs = Math.max(0, deadline - Date.now());
+
+      try {
+        if ((await this.runWithDeadline(step, remainingMs)) === false) {
+          clean = false;
+          log.warn(`Shutdown step '${step.name}' did not finish before the deadline`);
+        }
+      } catch (error) {
+        clean = false;
+        ErrorLogger.logError(`Shutdown step '${step.name}' failed`, error);
+      }
+    }
+
+    log.info(clean ? 'Shutdown complete' : 'Shutdown finished with errors');
+    this.exit(clean ? 0 : 1);
+  }
+
+  private async runWithDeadline(step: ShutdownStep, remainingMs: number): Promise<boolean | void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), remainingMs);
+    });
+
+    try {
+      return await Promise.race([Promise.resolve(step.run(remainingMs)), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
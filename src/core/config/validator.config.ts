@@ -10,9 +10,10 @@ export const urlSchema = z
 
 // Core
 const coreSchema = z.object({
-  NODE_ENV: z.enum(['development', 'production', 'staging']).default('development'),
+  NODE_ENV: z.enum(['development', 'production', 'staging', 'test']).default('development'),
   TZ: z.string().default('UTC'),
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  SHUTDOWN_TIMEOUT_MS: z.string().regex(/^\d+$/).default('25000').transform(Number),
   ADMIN_EMAIL: z.email('Invalid admin email'),
 });
 
@@ -37,6 +38,7 @@ const smtpSchema = z.object({
 // Health
 const healthSchema = z.object({
   HEALTH_CHECK_PORT: z.string().regex(/^\d+$/).default('3000').transform(Number),
+  ADMIN_API_TOKEN: z.string().min(16, 'ADMIN_API_TOKEN must be at least 16 characters').optional(),
 });
 
 // HTTP
@@ -47,6 +49,31 @@ const httpSchema = z.object({
   HTTP_KEEP_ALIVE_MS: z.string().regex(/^\d+$/).default('60000').transform(Number),
 });
 
+// Scheduler
+const schedulerSchema = z.object({
+  FORMS_REFRESH_INTERVAL_MS: z.string().regex(/^\d+$/).default('30000').transform(Number),
+  CHECK_CONCURRENCY: z
+    .string()
+    .regex(/^\d+$/)
+    .default('10')
+    .transform(Number)
+    .refine((n) => n > 0, 'CHECK_CONCURRENCY must be at least 1'),
+  CHECK_HOST_CONCURRENCY: z
+    .string()
+    .regex(/^\d+$/)
+    .default('2')
+    .transform(Number)
+    .refine((n) => n > 0, 'CHECK_HOST_CONCURRENCY must be at least 1'),
+  LEADER_ELECTION_ENABLED: z
+    .string()
+    .default('false')
+    .transform((v) => v === 'true'),
+  LEADER_LEASE_TTL_MS: z.string().regex(/^\d+$/).default('30000').transform(Number),
+  LEADER_RENEW_INTERVAL_MS: z.string().regex(/^\d+$/).default('10000').transform(Number),
+  INSTANCE_ID: z.string().min(1).optional(),
+  SCHEDULER_STALE_AFTER_MS: z.string().regex(/^\d+$/).default('30000').transform(Number),
+});
+
 // Circuit Breaker
 const circuitBreakerSchema = z.object({
   CB_TIMEOUT_MS: z.string().regex(/^\d+$/).default('10000').transform(Number),
@@ -58,6 +85,23 @@ const circuitBreakerSchema = z.object({
 const cacheSchema = z.object({
   CACHE_TTL_MS: z.string().regex(/^\d+$/).default('60000').transform(Number),
   CACHE_MAX_SIZE: z.string().regex(/^\d+$/).default('1000').transform(Number),
+  CACHE_BACKEND: z.enum(['memory', 'file', 'redis']).default('memory'),
+  CACHE_DIR: z.string().min(1).default('.data/cache'),
+  CACHE_REDIS_URL: z
+    .string()
+    .regex(/^redis:\/\//, 'CACHE_REDIS_URL must be a redis:// URL')
+    .optional(),
+  CACHE_STALE_WHILE_REVALIDATE: z
+    .string()
+    .default('false')
+    .transform((v) => v === 'true'),
+  CACHE_STALE_TTL_MS: z.string().regex(/^\d+$/).default('300000').transform(Number),
+});
+
+// Watcher state
+const stateSchema = z.object({
+  STATE_BACKEND: z.enum(['postgres', 'file']).default('postgres'),
+  STATE_FILE_PATH: z.string().min(1).default('.data/watcher-state.json'),
 });
 
 // Rate Limiting
@@ -70,6 +114,8 @@ const rateLimitSchema = z.object({
     .default('false')
     .transform((v) => v === 'true'),
   NOTIFICATION_COOLDOWN_MS: z.string().regex(/^\d+$/).default('3600000').transform(Number),
+  NOTIFICATION_DAILY_LIMIT: z.string().regex(/^\d+$/).default('20').transform(Number),
+  FAILURE_ALERT_THRESHOLD: z.string().regex(/^\d+$/).default('3').transform(Number),
   MAX_RETRIES: z.string().regex(/^\d+$/).default('3').transform(Number),
   RETRY_DELAY_BASE_MS: z.string().regex(/^\d+$/).default('1000').transform(Number),
 });
@@ -79,7 +125,7 @@ const corsSchema = z.object({
   CORS_ORIGIN: z
     .string()
     .optional()
-    .transform((v) => (v ? v.split(',').map((x) => x.trim()) : ['*'])),
+    .transform((v) => (v ? v.split(',').map((x) => x.trim()) : [])),
   CORS_METHODS: z
     .string()
     .optional()
@@ -106,6 +152,20 @@ const notificationSchema = z.object({
   SLACK_CHANNEL: z.string().optional(),
   SLACK_USERNAME: z.string().default('Form Watcher'),
   SLACK_ICON_URL: urlSchema.optional(),
+  TEAMS_WEBHOOK_URL: urlSchema.optional(),
+  GOOGLE_CHAT_WEBHOOK_URL: urlSchema.optional(),
+  PAGERDUTY_ROUTING_KEY: z.string().min(1).optional(),
+  // Plain HTTP is allowed so a local receiver can stand in for PagerDuty
+  PAGERDUTY_EVENTS_URL: z.url().default('https://events.pagerduty.com/v2/enqueue'),
+  // Plain HTTP is allowed for self-hosted ntfy servers on a private network
+  NTFY_SERVER_URL: z.url().default('https://ntfy.sh'),
+  NTFY_ACCESS_TOKEN: z.string().min(1).optional(),
+  PUSHOVER_APP_TOKEN: z.string().min(1).optional(),
+  PUSHOVER_API_URL: z.url().default('https://api.pushover.net/1/messages.json'),
+  WEBHOOK_SIGNING_SECRET: z.string().min(16).optional(),
+  TELEGRAM_BOT_TOKEN: z.string().min(1).optional(),
+  // Plain HTTP is allowed so a local stub can stand in for the Bot API
+  TELEGRAM_API_BASE_URL: z.url().default('https://api.telegram.org'),
 });
 
 // Final config schema
@@ -114,8 +174,10 @@ const configSchema = coreSchema
   .and(smtpSchema)
   .and(healthSchema)
   .and(httpSchema)
+  .and(schedulerSchema)
   .and(circuitBreakerSchema)
   .and(cacheSchema)
+  .and(stateSchema)
   .and(rateLimitSchema)
   .and(corsSchema)
   .and(notificationSchema);
@@ -141,6 +203,10 @@ export function getValidatedConfig(env: NodeJS.ProcessEnv): ValidatedConfig {
     throw new ConfigurationError('SLACK_CHANNEL is required when SLACK_WEBHOOK_BASE is provided');
   }
 
+  if (data.CACHE_BACKEND === 'redis' && !data.CACHE_REDIS_URL) {
+    throw new ConfigurationError('CACHE_REDIS_URL is required when CACHE_BACKEND is redis');
+  }
+
   if (data.SMTP_PORT < 1 || data.SMTP_PORT > 65535) {
     throw new ConfigurationError('SMTP_PORT must be between 1 and 65535');
   }
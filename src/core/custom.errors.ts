@@ -160,3 +160,12 @@ export class InternalServerError extends AppError {
     super(message, 'INTERNAL_SERVER_ERROR', 500, details);
   }
 }
+
+/**
+ * Error for notifications that were rejected for every recipient
+ */
+export class DeliveryError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'DELIVERY_ERROR', 502, details);
+  }
+}
@@ -1,5 +1,13 @@
-import { Cache } from '@src/infrastructure/cache';
+import {
+  Cache,
+  CacheStore,
+  FileCacheStore,
+  MemoryCacheStore,
+  RedisCacheStore,
+  RespClient,
+} from '@src/infrastructure/cache';
 import { INJECTABLES } from '@src/shared/enums/enums';
+import { log } from '@src/shared/utils/logger.util';
 
 import { ValidatedConfig } from '../config/validator.config';
 import { Container } from '../service.container';
@@ -16,19 +24,41 @@ export class CacheInitializer implements Initializer, Cleanable {
     const cache = new Cache({
       ttl: this.env.CACHE_TTL_MS,
       maxSize: this.env.CACHE_MAX_SIZE,
+      staleWhileRevalidate: this.env.CACHE_STALE_WHILE_REVALIDATE,
+      staleTtl: this.env.CACHE_STALE_TTL_MS,
+      store: this.createStore(),
     });
 
     container.set(INJECTABLES.CACHE, cache);
+    log.info(`Cache backend: ${this.env.CACHE_BACKEND}`);
   }
 
+  /**
+   * Closes the store without clearing it, so persistent backends keep their entries
+   * across restarts.
+   */
   async cleanup(): Promise<void> {
     if (!this.container) return;
 
     const cache = this.container.get<Cache>(INJECTABLES.CACHE);
     if (cache) {
-      cache.clear();
+      await cache.close();
     }
 
     this.container = null;
   }
+
+  private createStore(): CacheStore {
+    switch (this.env.CACHE_BACKEND) {
+      case 'file':
+        return new FileCacheStore({
+          directory: this.env.CACHE_DIR,
+          maxSize: this.env.CACHE_MAX_SIZE,
+        });
+      case 'redis':
+        return new RedisCacheStore(new RespClient(this.env.CACHE_REDIS_URL as string));
+      default:
+        return new MemoryCacheStore({ maxSize: this.env.CACHE_MAX_SIZE });
+    }
+  }
 }
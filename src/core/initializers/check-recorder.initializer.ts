@@ -0,0 +1,17 @@
+import { FormHistoryRepository } from '@src/infrastructure/persistence/repositories';
+import { INJECTABLES } from '@src/shared/enums/enums';
+
+import { Container } from '../service.container';
+import { CheckRecorder } from '../services/check-recorder.service';
+
+import { Initializer } from './base-initializer';
+
+export class CheckRecorderInitializer implements Initializer {
+  initialize(container: Container): void {
+    const historyRepository = container.get<FormHistoryRepository>(
+      INJECTABLES.FORM_HISTORY_REPOSITORY
+    );
+
+    container.set(INJECTABLES.CHECK_RECORDER, new CheckRecorder(historyRepository));
+  }
+}
@@ -0,0 +1,23 @@
+import { CircuitBreaker } from '@src/shared/api-clients/circuit-breaker.api-client';
+import { INJECTABLES } from '@src/shared/enums/enums';
+
+import { ValidatedConfig } from '../config/validator.config';
+import { Container } from '../service.container';
+import { FailureTracker } from '../services/failure-tracker.service';
+import { NotificationDispatcher } from '../services/notification-dispatcher.service';
+
+import { Initializer } from './base-initializer';
+
+export class FailureTrackerInitializer implements Initializer {
+  constructor(private readonly env: ValidatedConfig) {}
+
+  initialize(container: Container): void {
+    const tracker = new FailureTracker(
+      container.get<NotificationDispatcher>(INJECTABLES.NOTIFICATION_DISPATCHER),
+      container.get<CircuitBreaker>(INJECTABLES.CIRCUIT_BREAKER),
+      { threshold: this.env.FAILURE_ALERT_THRESHOLD }
+    );
+
+    container.set(INJECTABLES.FAILURE_TRACKER, tracker);
+  }
+}
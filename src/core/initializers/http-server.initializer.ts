@@ -0,0 +1,59 @@
+import { HttpServer } from '@src/infrastructure/http';
+import { EmailNotifier } from '@src/infrastructure/notifiers';
+import { db } from '@src/infrastructure/persistence/drizzle';
+import {
+  FormHistoryRepository,
+  FormRepository,
+  NotifierRepository,
+} from '@src/infrastructure/persistence/repositories';
+import { INJECTABLES } from '@src/shared/enums/enums';
+
+import { ValidatedConfig } from '../config/validator.config';
+import { JobScheduler } from '../schedulers/job.scheduler';
+import { Container } from '../service.container';
+import { HealthService } from '../services/health.service';
+import { LeaderElector } from '../services/leader-elector.service';
+
+import { Cleanable, Initializer } from './base-initializer';
+
+export class HttpServerInitializer implements Initializer, Cleanable {
+  private server: HttpServer | null = null;
+
+  constructor(private readonly env: ValidatedConfig) {}
+
+  async initialize(container: Container): Promise<void> {
+    const elector = container.has(INJECTABLES.LEADER_ELECTOR)
+      ? container.get<LeaderElector>(INJECTABLES.LEADER_ELECTOR)
+      : undefined;
+
+    const healthService = new HealthService({
+      db,
+      emailNotifier: container.has(INJECTABLES.EMAIL_NOTIFIER)
+        ? container.get<EmailNotifier>(INJECTABLES.EMAIL_NOTIFIER)
+        : undefined,
+      environment: this.env.NODE_ENV,
+      getSchedulerStatus: JobScheduler.getStatus,
+      getSchedulerStats: JobScheduler.getStats,
+      isStandby: () => elector !== undefined && !elector.isLeader,
+      schedulerStaleAfterMs: this.env.SCHEDULER_STALE_AFTER_MS,
+    });
+
+    const server = new HttpServer({
+      formRepository: container.get<FormRepository>(INJECTABLES.FORM_REPOSITORY),
+      notifierRepository: container.get<NotifierRepository>(INJECTABLES.NOTIFIER_REPOSITORY),
+      historyRepository: container.get<FormHistoryRepository>(INJECTABLES.FORM_HISTORY_REPOSITORY),
+      healthService,
+      adminToken: this.env.ADMIN_API_TOKEN,
+      onChange: JobScheduler.requestRefresh,
+    });
+
+    await server.start(this.env.HEALTH_CHECK_PORT);
+    container.set(INJECTABLES.HTTP_SERVER, server);
+    this.server = server;
+  }
+
+  async cleanup(): Promise<void> {
+    await this.server?.stop();
+    this.server = null;
+  }
+}
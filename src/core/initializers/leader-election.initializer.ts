@@ -0,0 +1,37 @@
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+
+import { LeaseRepository } from '@src/infrastructure/persistence/repositories';
+import { INJECTABLES } from '@src/shared/enums/enums';
+
+import { ValidatedConfig } from '../config/validator.config';
+import { Container } from '../service.container';
+import { LeaderElector } from '../services/leader-elector.service';
+
+import { Cleanable, Initializer } from './base-initializer';
+
+const SCHEDULER_LEASE = 'job-scheduler';
+
+export class LeaderElectionInitializer implements Initializer, Cleanable {
+  private elector: LeaderElector | null = null;
+
+  constructor(private readonly env: ValidatedConfig) {}
+
+  initialize(container: Container): void {
+    if (!this.env.LEADER_ELECTION_ENABLED) return;
+
+    this.elector = new LeaderElector(container.get<LeaseRepository>(INJECTABLES.LEASE_REPOSITORY), {
+      name: SCHEDULER_LEASE,
+      holderId: this.env.INSTANCE_ID ?? `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`,
+      ttlMs: this.env.LEADER_LEASE_TTL_MS,
+      renewIntervalMs: this.env.LEADER_RENEW_INTERVAL_MS,
+    });
+
+    container.set(INJECTABLES.LEADER_ELECTOR, this.elector);
+  }
+
+  async cleanup(): Promise<void> {
+    await this.elector?.stop();
+    this.elector = null;
+  }
+}
@@ -1,64 +1,31 @@
-import { metrics } from '@src/shared/utils/metrics.util';
+import { METRICS } from '@src/shared/utils/metrics.catalog.util';
 
-import { Initializer } from './base-initializer';
+import { Cleanable, Initializer } from './base-initializer';
 
-export class MetricsInitializer implements Initializer {
-  initialize(): void {
-    metrics.register({
-      type: 'counter',
-      name: 'watcher_checks_total',
-      help: 'Total number of watcher checks',
-      labelNames: ['watcher', 'formId'],
-    });
-
-    metrics.register({
-      type: 'counter',
-      name: 'watcher_checks_success_total',
-      help: 'Total number of successful watcher checks',
-      labelNames: ['watcher', 'formId'],
-    });
-
-    metrics.register({
-      type: 'counter',
-      name: 'watcher_checks_error_total',
-      help: 'Total number of failed watcher checks',
-      labelNames: ['watcher', 'formId', 'error'],
-    });
-
-    metrics.register({
-      type: 'histogram',
-      name: 'watcher_check_duration_seconds',
-      help: 'Duration of watcher checks in seconds',
-      labelNames: ['watcher', 'formId'],
-      buckets: [0.1, 0.5, 1, 2.5, 5, 10],
-    });
+// How often process metrics are sampled
+const SAMPLE_INTERVAL_MS = 10000;
 
-    metrics.register({
-      type: 'counter',
-      name: 'fetch_cache_hits_total',
-      help: 'Total number of fetch cache hits',
-      labelNames: ['watcher'],
-    });
+/**
+ * Starts sampling process metrics. The metrics themselves are declared in
+ * `metrics.catalog.util.ts`.
+ */
+export class MetricsInitializer implements Initializer, Cleanable {
+  private timer: ReturnType<typeof setInterval> | null = null;
 
-    metrics.register({
-      type: 'counter',
-      name: 'fetch_cache_misses_total',
-      help: 'Total number of fetch cache misses',
-      labelNames: ['watcher'],
-    });
+  initialize(): void {
+    this.sample();
+    this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS);
+    this.timer.unref();
+  }
 
-    metrics.register({
-      type: 'counter',
-      name: 'watcher_errors_total',
-      help: 'Total number of watcher errors',
-      labelNames: ['watcher', 'formId'],
-    });
+  cleanup(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
 
-    metrics.register({
-      type: 'counter',
-      name: 'watcher_check_errors_total',
-      help: 'Total number of watcher check errors',
-      labelNames: ['watcher', 'formId', 'error'],
-    });
+  private sample(): void {
+    for (const [type, value] of Object.entries(process.memoryUsage())) {
+      METRICS.nodejsMemoryUsage.set({ type }, value);
+    }
   }
 }
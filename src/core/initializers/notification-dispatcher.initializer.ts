@@ -0,0 +1,29 @@
+import { FormRepository, NotifierRepository } from '@src/infrastructure/persistence/repositories';
+import { INJECTABLES } from '@src/shared/enums/enums';
+
+import { ValidatedConfig } from '../config/validator.config';
+import { Container } from '../service.container';
+import { NotificationDispatcher } from '../services/notification-dispatcher.service';
+import { NotificationThrottle } from '../services/notification-throttle.service';
+
+import { Initializer } from './base-initializer';
+
+export class NotificationDispatcherInitializer implements Initializer {
+  constructor(private readonly env: ValidatedConfig) {}
+
+  initialize(container: Container): void {
+    const throttle = new NotificationThrottle({
+      cooldownMs: this.env.NOTIFICATION_COOLDOWN_MS,
+      dailyLimit: this.env.NOTIFICATION_DAILY_LIMIT,
+      timezone: this.env.TZ,
+    });
+
+    const dispatcher = new NotificationDispatcher(
+      container.get<FormRepository>(INJECTABLES.FORM_REPOSITORY),
+      container.get<NotifierRepository>(INJECTABLES.NOTIFIER_REPOSITORY),
+      throttle
+    );
+
+    container.set(INJECTABLES.NOTIFICATION_DISPATCHER, dispatcher);
+  }
+}
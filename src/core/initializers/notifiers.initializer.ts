@@ -1,18 +1,81 @@
-import { DiscordNotifier, EmailNotifier, SlackNotifier } from '@src/infrastructure/notifiers';
+import {
+  DiscordNotifier,
+  EmailNotifier,
+  GoogleChatNotifier,
+  NtfyNotifier,
+  PagerDutyNotifier,
+  PushoverNotifier,
+  SlackNotifier,
+  TeamsNotifier,
+  TelegramNotifier,
+  WebhookNotifier,
+} from '@src/infrastructure/notifiers';
+import { StateStore } from '@src/infrastructure/state';
 import { INJECTABLES } from '@src/shared/enums/enums';
 
 import { ValidatedConfig } from '../config/validator.config';
 import { Container } from '../service.container';
 
-import { Initializer } from './base-initializer';
+import { Cleanable, Initializer } from './base-initializer';
+
+export class NotifiersInitializer implements Initializer, Cleanable {
+  private container: Container | null = null;
 
-export class NotifiersInitializer implements Initializer {
   constructor(private readonly env: ValidatedConfig) {}
 
   initialize(container: Container): void {
+    this.container = container;
     this.initializeEmailNotifier(container);
     this.initializeDiscordNotifier(container);
     this.initializeSlackNotifier(container);
+    container.set(
+      INJECTABLES.TEAMS_NOTIFIER,
+      new TeamsNotifier({ webhookUrl: this.env.TEAMS_WEBHOOK_URL })
+    );
+    container.set(
+      INJECTABLES.GOOGLE_CHAT_NOTIFIER,
+      new GoogleChatNotifier({ webhookUrl: this.env.GOOGLE_CHAT_WEBHOOK_URL })
+    );
+    container.set(
+      INJECTABLES.PAGERDUTY_NOTIFIER,
+      new PagerDutyNotifier({
+        routingKey: this.env.PAGERDUTY_ROUTING_KEY,
+        eventsUrl: this.env.PAGERDUTY_EVENTS_URL,
+        state: container.get<StateStore>(INJECTABLES.STATE_STORE),
+      })
+    );
+    container.set(
+      INJECTABLES.NTFY_NOTIFIER,
+      new NtfyNotifier({
+        serverUrl: this.env.NTFY_SERVER_URL,
+        accessToken: this.env.NTFY_ACCESS_TOKEN,
+      })
+    );
+    container.set(
+      INJECTABLES.PUSHOVER_NOTIFIER,
+      new PushoverNotifier({
+        appToken: this.env.PUSHOVER_APP_TOKEN,
+        apiUrl: this.env.PUSHOVER_API_URL,
+      })
+    );
+    container.set(
+      INJECTABLES.WEBHOOK_NOTIFIER,
+      new WebhookNotifier({ signingSecret: this.env.WEBHOOK_SIGNING_SECRET })
+    );
+    container.set(
+      INJECTABLES.TELEGRAM_NOTIFIER,
+      new TelegramNotifier({
+        botToken: this.env.TELEGRAM_BOT_TOKEN,
+        apiBaseUrl: this.env.TELEGRAM_API_BASE_URL,
+      })
+    );
+  }
+
+  cleanup(): void {
+    if (this.container?.has(INJECTABLES.EMAIL_NOTIFIER)) {
+      this.container.get<EmailNotifier>(INJECTABLES.EMAIL_NOTIFIER).close();
+    }
+    this.container = null;
   }
 
   private initializeEmailNotifier(container: Container): void {
@@ -33,27 +96,27 @@ export class NotifiersInitializer implements Initializer {
     }
   }
 
+  /**
+   * Always registered: notifier rows may carry their own webhook, the env webhook
+   * is only the fallback.
+   */
   private initializeDiscordNotifier(container: Container): void {
-    const { DISCORD_WEBHOOK_URL } = this.env;
-    if (DISCORD_WEBHOOK_URL) {
-      container.set(
-        INJECTABLES.DISCORD_NOTIFIER,
-        new DiscordNotifier({
-          webhookUrl: DISCORD_WEBHOOK_URL,
-        })
-      );
-    }
+    container.set(
+      INJECTABLES.DISCORD_NOTIFIER,
+      new DiscordNotifier({ webhookUrl: this.env.DISCORD_WEBHOOK_URL })
+    );
   }
 
   private initializeSlackNotifier(container: Container): void {
-    const { SLACK_WEBHOOK_URL } = this.env;
-    if (SLACK_WEBHOOK_URL) {
-      container.set(
-        INJECTABLES.SLACK_NOTIFIER,
-        new SlackNotifier({
-          webhookUrl: SLACK_WEBHOOK_URL,
-        })
-      );
-    }
+    const { SLACK_WEBHOOK_URL, SLACK_CHANNEL, SLACK_USERNAME, SLACK_ICON_URL } = this.env;
+    container.set(
+      INJECTABLES.SLACK_NOTIFIER,
+      new SlackNotifier({
+        webhookUrl: SLACK_WEBHOOK_URL,
+        channel: SLACK_CHANNEL,
+        username: SLACK_USERNAME,
+        iconUrl: SLACK_ICON_URL,
+      })
+    );
   }
 }
@@ -0,0 +1,23 @@
+import { db } from '@src/infrastructure/persistence/drizzle';
+import {
+  FormHistoryRepository,
+  FormRepository,
+  LeaseRepository,
+  NotifierRepository,
+} from '@src/infrastructure/persistence/repositories';
+import { INJECTABLES } from '@src/shared/enums/enums';
+
+import { Container } from '../service.container';
+
+import { Initializer } from './base-initializer';
+
+export class PersistenceInitializer implements Initializer {
+  initialize(container: Container): void {
+    const notifierRepository = new NotifierRepository(db);
+
+    container.set(INJECTABLES.NOTIFIER_REPOSITORY, notifierRepository);
+    container.set(INJECTABLES.FORM_REPOSITORY, new FormRepository(db, notifierRepository));
+    container.set(INJECTABLES.FORM_HISTORY_REPOSITORY, new FormHistoryRepository(db));
+    container.set(INJECTABLES.LEASE_REPOSITORY, new LeaseRepository(db));
+  }
+}
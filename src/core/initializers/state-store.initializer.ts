@@ -0,0 +1,23 @@
+import { db } from '@src/infrastructure/persistence/drizzle';
+import { FileStateStore, PostgresStateStore, StateStore } from '@src/infrastructure/state';
+import { INJECTABLES } from '@src/shared/enums/enums';
+import { log } from '@src/shared/utils/logger.util';
+
+import { ValidatedConfig } from '../config/validator.config';
+import { Container } from '../service.container';
+
+import { Initializer } from './base-initializer';
+
+export class StateStoreInitializer implements Initializer {
+  constructor(private readonly env: ValidatedConfig) {}
+
+  initialize(container: Container): void {
+    const store: StateStore =
+      this.env.STATE_BACKEND === 'file'
+        ? new FileStateStore(this.env.STATE_FILE_PATH)
+        : new PostgresStateStore(db);
+
+    container.set(INJECTABLES.STATE_STORE, store);
+    log.info(`Watcher state backend: ${this.env.STATE_BACKEND}`);
+  }
+}
@@ -1,8 +1,11 @@
-import { Cache } from '@src/infrastructure/cache';
+import { StateStore } from '@src/infrastructure/state';
 import {
   AiTextWatcher,
+  FeedWatcher,
   GoogleFormWatcher,
   HtmlSnippetWatcher,
+  HttpStatusWatcher,
+  JsonApiWatcher,
   registerWatchers,
 } from '@src/infrastructure/watchers';
 import { CircuitBreaker } from '@src/shared/api-clients/circuit-breaker.api-client';
@@ -25,7 +28,7 @@ export class WatchersInitializer implements Initializer {
     try {
       // Retrieve shared dependencies from the container
       const circuitBreaker = container.get<CircuitBreaker>(INJECTABLES.CIRCUIT_BREAKER);
-      const cache = container.get<Cache>(INJECTABLES.CACHE);
+      const state = container.get<StateStore>(INJECTABLES.STATE_STORE);
       const fetcher = container.get<ContentFetcher>(INJECTABLES.CONTENT_FETCHER);
       const hasher = container.get<HashGenerator>(INJECTABLES.HASH_GENERATOR);
 
@@ -34,7 +37,7 @@ export class WatchersInitializer implements Initializer {
         INJECTABLES.GOOGLE_FORM_WATCHER,
         new GoogleFormWatcher(
           circuitBreaker,
-          cache,
+          state,
           fetcher,
           hasher,
           new ErrorLogger('GoogleFormWatcher')
@@ -45,7 +48,7 @@ export class WatchersInitializer implements Initializer {
         INJECTABLES.HTML_SNIPPET_WATCHER,
         new HtmlSnippetWatcher(
           circuitBreaker,
-          cache,
+          state,
           fetcher,
           hasher,
           new ErrorLogger('HtmlSnippetWatcher')
@@ -54,7 +57,34 @@ export class WatchersInitializer implements Initializer {
 
       container.set(
         INJECTABLES.AI_TEXT_WATCHER,
-        new AiTextWatcher(circuitBreaker, cache, fetcher, hasher, new ErrorLogger('AiTextWatcher'))
+        new AiTextWatcher(circuitBreaker, state, fetcher, hasher, new ErrorLogger('AiTextWatcher'))
+      );
+
+      container.set(
+        INJECTABLES.JSON_API_WATCHER,
+        new JsonApiWatcher(
+          circuitBreaker,
+          state,
+          fetcher,
+          hasher,
+          new ErrorLogger('JsonApiWatcher')
+        )
+      );
+
+      container.set(
+        INJECTABLES.FEED_WATCHER,
+        new FeedWatcher(circuitBreaker, state, fetcher, hasher, new ErrorLogger('FeedWatcher'))
+      );
+
+      container.set(
+        INJECTABLES.HTTP_STATUS_WATCHER,
+        new HttpStatusWatcher(
+          circuitBreaker,
+          state,
+          fetcher,
+          hasher,
+          new ErrorLogger('HttpStatusWatcher')
+        )
       );
 
       // Register watchers in the registry after they have been initialized
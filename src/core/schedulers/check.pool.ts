@@ -0,0 +1,153 @@
+export interface PoolTask {
+  /**
+   * Identifies the task; a key that is already queued or running is not enqueued again
+   */
+  key: string;
+
+  /**
+   * Lower numbers run first
+   */
+  priority: number;
+
+  /**
+   * Tasks sharing a host count against the same per-host limit
+   */
+  host: string;
+
+  run: () => Promise<void>;
+}
+
+export interface CheckPoolOptions {
+  /**
+   * Maximum number of tasks running at once
+   */
+  concurrency: number;
+
+  /**
+   * Maximum number of tasks running at once against a single host
+   */
+  perHostConcurrency: number;
+}
+
+interface QueuedTask extends PoolTask {
+  sequence: number;
+  resolve: () => void;
+}
+
+/**
+ * Runs tasks with bounded concurrency. Waiting tasks start in priority order (then
+ * FIFO), skipping tasks whose host is already at its limit so one slow domain does
+ * not hold up the others.
+ */
+export class CheckPool {
+  private readonly queue: QueuedTask[] = [];
+  private readonly activeKeys = new Set<string>();
+  private readonly activePerHost = new Map<string, number>();
+  private sequence = 0;
+  private pumpScheduled = false;
+
+  constructor(private readonly options: CheckPoolOptions) {
+    if (options.concurrency < 1 || options.perHostConcurrency < 1) {
+      throw new RangeError('Pool concurrency limits must be at least 1');
+    }
+  }
+
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  get active(): number {
+    return this.activeKeys.size;
+  }
+
+  /**
+   * Queues a task. Errors thrown by the task are the caller's responsibility; the
+   * returned promise only signals completion.
+   * @returns A promise settling once the task finished or was dropped by `clear()`,
+   * or undefined when a task with the same key is already queued or running.
+   */
+  enqueue(task: PoolTask): Promise<void> | undefined {
+    if (this.activeKeys.has(task.key) || this.queue.some((queued) => queued.key === task.key)) {
+      return undefined;
+    }
+
+    const done = new Promise<void>((resolve) => {
+      this.queue.push({ ...task, sequence: this.sequence++, resolve });
+    });
+    this.schedulePump();
+    return done;
+  }
+
+  /**
+   * Drops tasks that have not started yet. Running tasks are not affected.
+   */
+  clear(): void {
+    for (const task of this.queue.splice(0)) {
+      task.resolve();
+    }
+  }
+
+  /**
+   * Starts tasks on the next microtask, so tasks enqueued together are ordered by
+   * priority instead of by enqueue order.
+   */
+  private schedulePump(): void {
+    if (this.pumpScheduled) return;
+    this.pumpScheduled = true;
+
+    queueMicrotask(() => {
+      this.pumpScheduled = false;
+      this.pump();
+    });
+  }
+
+  private pump(): void {
+    while (this.activeKeys.size < this.options.concurrency) {
+      const index = this.nextRunnableIndex();
+      if (index === -1) return;
+
+      const [task] = this.queue.splice(index, 1);
+      this.start(task);
+    }
+  }
+
+  private nextRunnableIndex(): number {
+    let best = -1;
+
+    this.queue.forEach((task, index) => {
+      if ((this.activePerHost.get(task.host) ?? 0) >= this.options.perHostConcurrency) return;
+
+      const current = this.queue[best];
+      if (
+        !current ||
+        task.priority < current.priority ||
+        (task.priority === current.priority && task.sequence < current.sequence)
+      ) {
+        best = index;
+      }
+    });
+
+    return best;
+  }
+
+  private start(task: QueuedTask): void {
+    this.activeKeys.add(task.key);
+    this.activePerHost.set(task.host, (this.activePerHost.get(task.host) ?? 0) + 1);
+
+    task
+      .run()
+      .catch(() => undefined)
+      .finally(() => {
+        this.activeKeys.delete(task.key);
+        const remaining = (this.activePerHost.get(task.host) ?? 1) - 1;
+        if (remaining > 0) {
+          this.activePerHost.set(task.host, remaining);
+        } else {
+          this.activePerHost.delete(task.host);
+        }
+
+        task.resolve();
+        this.pump();
+      });
+  }
+}
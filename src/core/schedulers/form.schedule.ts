@@ -0,0 +1,186 @@
+import { CronExpressionParser } from 'cron-parser';
+import { DateTime } from 'luxon';
+
+import { env } from '@src/core/config/env.config';
+import { ConfigurationError } from '@src/core/custom.errors';
+import { Form } from '@src/shared/types/types';
+
+type ScheduledForm = Pick<
+  Form,
+  | 'id'
+  | 'intervalSeconds'
+  | 'cronSchedule'
+  | 'startDate'
+  | 'endDate'
+  | 'weekdays'
+  | 'activeFrom'
+  | 'activeTo'
+  | 'timezone'
+>;
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Upper bound on cron occurrences inspected while looking for one inside the active window
+const MAX_CRON_LOOKAHEAD = 500;
+
+/**
+ * Resolves the timezone a form's schedule is evaluated in.
+ */
+function zoneOf(form: ScheduledForm): string {
+  return form.timezone || env.TZ;
+}
+
+/**
+ * Parses `HH:mm` or `HH:mm:ss` (as stored by Postgres `time` columns).
+ */
+function parseTimeOfDay(value: string, field: string): TimeOfDay {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(value);
+  if (!match) {
+    throw new ConfigurationError(`Invalid ${field} time: ${value}`, { field, value });
+  }
+  return { hour: Number(match[1]), minute: Number(match[2]), second: Number(match[3] ?? 0) };
+}
+
+function atTime(day: DateTime, time: TimeOfDay): DateTime {
+  return day.set({ ...time, millisecond: 0 });
+}
+
+/**
+ * Checks whether a weekday is allowed. Accepts full or three-letter names in any case;
+ * an empty list allows every day.
+ */
+function isWeekdayAllowed(form: ScheduledForm, day: DateTime): boolean {
+  if (!form.weekdays?.length) return true;
+
+  const name = day.setLocale('en').weekdayLong?.toLowerCase() ?? '';
+  return form.weekdays.some((weekday) => {
+    const normalized = weekday.trim().toLowerCase();
+    return normalized === name || normalized === name.slice(0, 3);
+  });
+}
+
+function dateBounds(form: ScheduledForm, zone: string): { start: DateTime; end: DateTime } {
+  const start = DateTime.fromISO(form.startDate, { zone }).startOf('day');
+  const end = DateTime.fromISO(form.endDate, { zone }).endOf('day');
+  if (!start.isValid || !end.isValid) {
+    throw new ConfigurationError(`Invalid start/end date for form ${form.id}`, {
+      startDate: form.startDate,
+      endDate: form.endDate,
+    });
+  }
+  return { start, end };
+}
+
+/**
+ * Returns true when the form is inside its active window at the given instant:
+ * between startDate and endDate (inclusive), on an allowed weekday, and between
+ * activeFrom and activeTo. Windows where activeTo is earlier than activeFrom span
+ * midnight and belong to the weekday they start on.
+ */
+function isActive(form: ScheduledForm, at: DateTime = DateTime.now()): boolean {
+  const zone = zoneOf(form);
+  const local = at.setZone(zone);
+  const { start, end } = dateBounds(form, zone);
+  if (local < start || local > end) return false;
+
+  const from = parseTimeOfDay(form.activeFrom, 'activeFrom');
+  const to = parseTimeOfDay(form.activeTo, 'activeTo');
+  const windowStart = atTime(local, from);
+  const windowEnd = atTime(local, to);
+
+  // Identical bounds mean the form is active all day
+  if (+windowStart === +windowEnd) return isWeekdayAllowed(form, local);
+
+  if (windowStart < windowEnd) {
+    return isWeekdayAllowed(form, local) && local >= windowStart && local <= windowEnd;
+  }
+
+  // Overnight window: the late part belongs to today, the early part to yesterday
+  if (local >= windowStart) return isWeekdayAllowed(form, local);
+  return local <= windowEnd && isWeekdayAllowed(form, local.minus({ days: 1 }));
+}
+
+/**
+ * Finds the first instant at or after `from` where the form's active window opens,
+ * or null when the form will never be active again.
+ */
+function nextWindowStart(form: ScheduledForm, from: DateTime): DateTime | null {
+  const zone = zoneOf(form);
+  const { start, end } = dateBounds(form, zone);
+  let cursor: DateTime = from.setZone(zone);
+
+  if (cursor > end) return null;
+  if (cursor < start) cursor = start;
+  if (isActive(form, cursor)) return cursor;
+
+  const activeFrom = parseTimeOfDay(form.activeFrom, 'activeFrom');
+
+  // A full week always contains an allowed weekday unless the list is invalid
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = cursor.plus({ days: offset }).startOf('day');
+    if (day > end) return null;
+    if (!isWeekdayAllowed(form, day)) continue;
+
+    const candidate = atTime(day, activeFrom);
+    if (candidate >= cursor && candidate <= end) return candidate;
+  }
+
+  return null;
+}
+
+function nextCronOccurrence(form: ScheduledForm, after: DateTime): DateTime {
+  try {
+    const expression = CronExpressionParser.parse(form.cronSchedule as string, {
+      currentDate: after.toJSDate(),
+      tz: zoneOf(form),
+    });
+    return DateTime.fromJSDate(expression.next().toDate(), { zone: zoneOf(form) });
+  } catch (error) {
+    throw new ConfigurationError(`Invalid cron schedule for form ${form.id}`, {
+      cronSchedule: form.cronSchedule,
+      cause: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Computes the next time a form should be checked after `after`.
+ * Forms with a `cronSchedule` run on its occurrences; all others run every
+ * `intervalSeconds`. Runs falling outside the active window are moved to the
+ * next window opening (or the first cron occurrence inside it).
+ * @returns The next run time, or null if the form is past its end date.
+ */
+function nextRun(form: ScheduledForm, after: DateTime = DateTime.now()): DateTime | null {
+  if (form.cronSchedule) {
+    let cursor = after;
+    for (let i = 0; i < MAX_CRON_LOOKAHEAD; i++) {
+      const occurrence = nextCronOccurrence(form, cursor);
+      if (isActive(form, occurrence)) return occurrence;
+
+      const windowStart = nextWindowStart(form, occurrence);
+      if (!windowStart) return null;
+      // Resume the search just before the window opens so an occurrence on its boundary counts
+      cursor = windowStart.minus({ milliseconds: 1 });
+    }
+    return null;
+  }
+
+  if (!form.intervalSeconds || form.intervalSeconds <= 0) {
+    throw new ConfigurationError(`Form ${form.id} has no valid intervalSeconds or cronSchedule`, {
+      intervalSeconds: form.intervalSeconds,
+    });
+  }
+
+  const candidate = after.plus({ seconds: form.intervalSeconds });
+  return isActive(form, candidate) ? candidate : nextWindowStart(form, candidate);
+}
+
+export const FormSchedule = {
+  isActive,
+  nextRun,
+  nextWindowStart,
+};
@@ -1,79 +1,351 @@
-import cron from 'node-cron';
+import { DateTime } from 'luxon';
+import cron, { ScheduledTask } from 'node-cron';
 
+import { env } from '@src/core/config/env.config';
+import { FormRepository } from '@src/infrastructure/persistence/repositories';
 import { WatcherRegistry } from '@src/infrastructure/watchers';
-import { Form } from '@src/shared/types/types';
-import { handleError } from '@src/shared/utils/error.handler.util';
+import { INJECTABLES } from '@src/shared/enums/enums';
+import { Form, Metrics } from '@src/shared/types/types';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+import { InFlightTracker } from '@src/shared/utils/in-flight.tracker.util';
 import { log } from '@src/shared/utils/logger.util';
+import { METRICS } from '@src/shared/utils/metrics.catalog.util';
 
-// This is mock data. In a real application, you would fetch this from a database.
-const forms: Form[] = [
-  {
-    id: '1',
-    name: 'Test Google Form',
-    url: 'https://docs.google.com/forms/d/e/1FAIpQLSc_12345_67890',
-    watcherType: 'google-form',
-    watcherConfig: { closedText: 'This form is currently not accepting responses' },
-    intervalSeconds: 60,
-    startDate: new Date().toISOString(),
-    endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days from now
-    weekdays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
-    activeFrom: '09:00',
-    activeTo: '17:00',
-    enabled: true,
-    priority: 1,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: '2',
-    name: 'Test HTML Snippet',
-    url: 'https://example.com',
-    watcherType: 'html-snippet',
-    watcherConfig: { selector: 'h1' },
-    intervalSeconds: 60,
-    startDate: new Date().toISOString(),
-    endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-    weekdays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
-    activeFrom: '00:00',
-    activeTo: '23:59',
-    enabled: true,
-    priority: 2,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-];
-
-async function runWatcherJob() {
-  await handleError(
-    async () => {
-      log.info('Starting watcher job...');
-      const watchers = WatcherRegistry.getAll();
-
-      for (const [watcherType, watcher] of watchers) {
-        const relevantForms = forms.filter((form) => form.watcherType === watcherType && form.enabled);
-
-        for (const form of relevantForms) {
-          try {
-            const result = await watcher.check(form);
-            log.info(
-              `Watcher '${watcherType}' for form '${form.name}' finished with status: ${result.status}`
-            );
-          } catch (error) {
-            // Error is already logged by the watcher's handleError.
-            // This catch block ensures that a single failed form check doesn't stop the entire job.
-            log.warn(`Error in form '${form.name}', continuing to next form...`);
-          }
-        }
-      }
-      log.info('Watcher job finished.');
-    },
-    { stage: 'job-execution', jobName: 'runWatcherJob' }
+import { Container } from '../service.container';
+import { CheckRecorder } from '../services/check-recorder.service';
+import { FailureTracker } from '../services/failure-tracker.service';
+import { NotificationDispatcher } from '../services/notification-dispatcher.service';
+
+import { CheckPool } from './check.pool';
+import { FormSchedule } from './form.schedule';
+
+interface ScheduleEntry {
+  form: Form;
+  nextRunAt: DateTime | null;
+
+  /**
+   * True while a check is queued or running
+   */
+  running: boolean;
+}
+
+const schedule = new Map<string, ScheduleEntry>();
+const inFlight = new InFlightTracker();
+let task: ScheduledTask | null = null;
+let pool: CheckPool | null = null;
+
+let formRepository: FormRepository | null = null;
+let checkRecorder: CheckRecorder | null = null;
+let dispatcher: NotificationDispatcher | null = null;
+let failureTracker: FailureTracker | null = null;
+let forms: Form[] = [];
+let formsLoadedAt = 0;
+let formsLoading: Promise<void> | null = null;
+let lastTickAt: number | null = null;
+
+const stats = { totalChecks: 0, successfulChecks: 0, failedChecks: 0, totalResponseTime: 0 };
+
+export interface SchedulerStatus {
+  running: boolean;
+  lastTickAt?: string;
+  activeForms: number;
+  queuedChecks: number;
+  activeChecks: number;
+}
+
+/**
+ * Reloads enabled forms (with their notifiers) from the database. On failure the
+ * previously loaded forms are kept so a database hiccup doesn't stop monitoring.
+ */
+async function refreshForms(): Promise<void> {
+  if (!formRepository) return;
+
+  try {
+    forms = await formRepository.findEnabledWithNotifiers();
+    log.debug(`Loaded ${forms.length} enabled forms`);
+  } catch (error) {
+    ErrorLogger.logError('Failed to load forms, keeping previous set', error, {
+      stage: 'forms-refresh',
+      formCount: forms.length,
+    });
+  } finally {
+    formsLoadedAt = Date.now();
+  }
+}
+
+/**
+ * Starts a background reload once the refresh interval has elapsed, so inserts and
+ * updates are picked up without a restart.
+ */
+function refreshFormsIfStale(): void {
+  if (formsLoading || Date.now() - formsLoadedAt < env.FORMS_REFRESH_INTERVAL_MS) return;
+
+  formsLoading = refreshForms().finally(() => {
+    formsLoading = null;
+  });
+}
+
+/**
+ * Computes the next run for a form, logging and parking the form (no next run)
+ * when its schedule configuration is invalid.
+ */
+function computeNextRun(form: Form, after: DateTime): DateTime | null {
+  try {
+    return FormSchedule.nextRun(form, after);
+  } catch (error) {
+    ErrorLogger.logError(`Invalid schedule for form '${form.name}'`, error, { formId: form.id });
+    return null;
+  }
+}
+
+/**
+ * Computes the first run for a newly scheduled form: immediately when it is inside
+ * its active window, otherwise as soon as the window opens.
+ */
+function computeFirstRun(form: Form, now: DateTime): DateTime | null {
+  try {
+    if (!form.cronSchedule && FormSchedule.isActive(form, now)) return now;
+    return form.cronSchedule
+      ? FormSchedule.nextRun(form, now)
+      : FormSchedule.nextWindowStart(form, now);
+  } catch (error) {
+    ErrorLogger.logError(`Invalid schedule for form '${form.name}'`, error, { formId: form.id });
+    return null;
+  }
+}
+
+/**
+ * Keeps the check state recorded in memory when it is newer than what was loaded,
+ * since a check may finish between two form reloads.
+ */
+function mergeCheckState(loaded: Form, current: Form): Form {
+  if (!current.lastCheckedAt || (loaded.lastCheckedAt ?? '') >= current.lastCheckedAt) {
+    return loaded;
+  }
+
+  return {
+    ...loaded,
+    lastCheckedAt: current.lastCheckedAt,
+    lastStatus: current.lastStatus,
+    lastHash: current.lastHash,
+  };
+}
+
+/**
+ * Reconciles the schedule with the current set of enabled forms. New forms and
+ * forms whose definition changed get a freshly computed next run.
+ */
+function syncSchedule(activeForms: Form[], now: DateTime): void {
+  const seen = new Set<string>();
+
+  for (const form of activeForms) {
+    seen.add(form.id);
+    const entry = schedule.get(form.id);
+
+    if (!entry) {
+      schedule.set(form.id, { form, nextRunAt: computeFirstRun(form, now), running: false });
+      continue;
+    }
+
+    if (entry.form.updatedAt !== form.updatedAt) {
+      entry.nextRunAt = computeFirstRun(form, now);
+    }
+    entry.form = mergeCheckState(form, entry.form);
+  }
+
+  for (const formId of schedule.keys()) {
+    if (!seen.has(formId)) schedule.delete(formId);
+  }
+}
+
+/**
+ * Host used for the per-host concurrency limit.
+ */
+function hostOf(form: Form): string {
+  try {
+    return new URL(form.url).host;
+  } catch {
+    return form.url;
+  }
+}
+
+function updatePoolMetrics(): void {
+  METRICS.schedulerQueuedChecks.set({}, pool?.queued ?? 0);
+  METRICS.schedulerActiveChecks.set({}, pool?.active ?? 0);
+}
+
+async function runCheck(entry: ScheduleEntry): Promise<void> {
+  const { form } = entry;
+  const watcher = WatcherRegistry.get(form.watcherType);
+
+  if (!watcher) {
+    log.warn(`No watcher registered for type '${form.watcherType}', skipping form '${form.name}'`);
+    return;
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await watcher.check(form);
+    log.info(
+      `Watcher '${form.watcherType}' for form '${form.name}' finished with status: ${result.status}`
+    );
+
+    stats.totalChecks += 1;
+    stats.successfulChecks += 1;
+    stats.totalResponseTime += result.responseTime;
+
+    const record = CheckRecorder.fromResult(form, result);
+    await checkRecorder?.record(record);
+    entry.form = {
+      ...entry.form,
+      lastCheckedAt: record.checkedAt,
+      lastStatus: record.status,
+      lastHash: record.hash ?? entry.form.lastHash,
+    };
+
+    await failureTracker?.recordSuccess(form);
+    const transition = await dispatcher?.dispatch(form, result, form.lastStatus);
+    if (transition?.delivered && result.acknowledge) {
+      // Unacknowledged results are reported again on the next check
+      await result.acknowledge().catch((error) =>
+        ErrorLogger.logError(`Failed to acknowledge check of form '${form.name}'`, error, {
+          formId: form.id,
+        })
+      );
+    }
+  } catch (error) {
+    // Error is already logged by the watcher.
+    // Swallowing it here ensures that a single failed form check doesn't affect other forms.
+    log.warn(`Error in form '${form.name}', will retry on its next scheduled run`);
+
+    stats.totalChecks += 1;
+    stats.failedChecks += 1;
+
+    const record = CheckRecorder.fromError(form, error, Date.now() - startTime);
+    await checkRecorder?.record(record);
+    entry.form = { ...entry.form, lastCheckedAt: record.checkedAt };
+
+    await failureTracker?.recordFailure(form, error);
+  }
+}
+
+/**
+ * Runs once per second: queues a check for every form whose next run is due and
+ * immediately schedules the following run, so slow checks don't shift the cadence.
+ * The pool starts queued checks by priority within the concurrency limits.
+ */
+function tick(): void {
+  lastTickAt = Date.now();
+  refreshFormsIfStale();
+
+  const now = DateTime.now();
+  syncSchedule(
+    forms.filter((form) => form.enabled),
+    now
   );
+
+  for (const entry of schedule.values()) {
+    if (!pool || !entry.nextRunAt || entry.nextRunAt > now || entry.running) continue;
+
+    const done = pool.enqueue({
+      key: entry.form.id,
+      priority: entry.form.priority,
+      host: hostOf(entry.form),
+      run: () => runCheck(entry),
+    });
+    if (!done) continue;
+
+    entry.running = true;
+    entry.nextRunAt = computeNextRun(entry.form, now);
+
+    inFlight.track(
+      done.finally(() => {
+        entry.running = false;
+        updatePoolMetrics();
+      })
+    );
+  }
+
+  updatePoolMetrics();
 }
 
 export const JobScheduler = {
-  start: (): void => {
-    cron.schedule('* * * * *', runWatcherJob);
-    log.info('Job scheduler started. Watcher job will run every minute.');
+  start: async (container: Container): Promise<void> => {
+    if (task) return;
+
+    formRepository = container.get<FormRepository>(INJECTABLES.FORM_REPOSITORY);
+    checkRecorder = container.get<CheckRecorder>(INJECTABLES.CHECK_RECORDER);
+    dispatcher = container.get<NotificationDispatcher>(INJECTABLES.NOTIFICATION_DISPATCHER);
+    failureTracker = container.get<FailureTracker>(INJECTABLES.FAILURE_TRACKER);
+    // Reuse the pool after a restart so checks still running are not started twice
+    pool ??= new CheckPool({
+      concurrency: env.CHECK_CONCURRENCY,
+      perHostConcurrency: env.CHECK_HOST_CONCURRENCY,
+    });
+    await refreshForms();
+
+    task = cron.schedule('* * * * * *', tick);
+    log.info('Job scheduler started. Forms are checked on their own interval or cron schedule.');
   },
+
+  /**
+   * Reloads forms on the next tick instead of waiting for the refresh interval,
+   * e.g. after they were changed through the admin API.
+   */
+  requestRefresh: (): void => {
+    formsLoadedAt = 0;
+  },
+
+  /**
+   * Stops scheduling new checks and drops queued ones. Checks already running keep
+   * going; use `drain` to wait for them.
+   */
+  stop: (): void => {
+    task?.stop();
+    task = null;
+    pool?.clear();
+    schedule.clear();
+    forms = [];
+    formsLoadedAt = 0;
+    lastTickAt = null;
+  },
+
+  /**
+   * Waits for running checks, including their notifications and history writes.
+   * @returns False if checks were still running when the timeout elapsed.
+   */
+  drain: (timeoutMs: number): Promise<boolean> => inFlight.drain(timeoutMs),
+
+  /**
+   * Returns whether the scheduler runs, when it last ticked and how many forms it schedules.
+   */
+  getStatus: (): SchedulerStatus => ({
+    running: task !== null,
+    lastTickAt: lastTickAt ? new Date(lastTickAt).toISOString() : undefined,
+    activeForms: schedule.size,
+    queuedChecks: pool?.queued ?? 0,
+    activeChecks: pool?.active ?? 0,
+  }),
+
+  /**
+   * Returns check totals since startup. The average response time covers successful checks.
+   */
+  getStats: (): Metrics => ({
+    totalChecks: stats.totalChecks,
+    successfulChecks: stats.successfulChecks,
+    failedChecks: stats.failedChecks,
+    avgResponseTime: stats.successfulChecks ? stats.totalResponseTime / stats.successfulChecks : 0,
+  }),
+
+  /**
+   * Returns the next scheduled run per form id, for diagnostics.
+   */
+  getNextRuns: (): Record<string, string | null> =>
+    Object.fromEntries(
+      Array.from(schedule.entries()).map(([formId, entry]) => [
+        formId,
+        entry.nextRunAt?.toISO() ?? null,
+      ])
+    ),
 };
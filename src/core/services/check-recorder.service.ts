@@ -0,0 +1,112 @@
+import { FormHistoryRepository } from '@src/infrastructure/persistence/repositories';
+import { CheckRecord, Form, WatcherResult } from '@src/shared/types/types';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+import { log } from '@src/shared/utils/logger.util';
+
+export interface CheckRecorderOptions {
+  /**
+   * Maximum number of unwritten records kept in memory while the database is unavailable
+   * @default 1000
+   */
+  maxPending?: number;
+}
+
+/**
+ * Persists check outcomes to `form_history` and the form's `last_*` columns.
+ * Writes that fail are kept in order and retried with the next record or on `flush()`,
+ * so a short database outage doesn't lose history.
+ */
+export class CheckRecorder {
+  private readonly pending: CheckRecord[] = [];
+  private readonly maxPending: number;
+  private flushing: Promise<void> | null = null;
+
+  constructor(
+    private readonly historyRepository: FormHistoryRepository,
+    options: CheckRecorderOptions = {}
+  ) {
+    this.maxPending = options.maxPending ?? 1000;
+  }
+
+  /**
+   * Builds the record for a successful check.
+   */
+  static fromResult(form: Form, result: WatcherResult, checkedAt = new Date()): CheckRecord {
+    return {
+      formId: form.id,
+      status: result.status,
+      hash: result.hash,
+      responseTime: result.responseTime,
+      checkedAt: checkedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Builds the record for a failed check, using the error class name as the watcher metrics do.
+   */
+  static fromError(
+    form: Form,
+    error: unknown,
+    responseTime: number,
+    checkedAt = new Date()
+  ): CheckRecord {
+    const err = error instanceof Error ? error : new Error(String(error));
+    return {
+      formId: form.id,
+      status: 'error',
+      responseTime,
+      error: err.constructor.name,
+      checkedAt: checkedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Queues a record and writes everything pending. Never throws.
+   */
+  async record(record: CheckRecord): Promise<void> {
+    if (this.pending.length >= this.maxPending) {
+      const dropped = this.pending.shift();
+      log.warn('Check history buffer full, dropping oldest record', {
+        formId: dropped?.formId,
+        checkedAt: dropped?.checkedAt,
+        maxPending: this.maxPending,
+      });
+    }
+
+    this.pending.push(record);
+    await this.flush();
+  }
+
+  /**
+   * Writes all pending records in order. Concurrent callers share the same flush.
+   */
+  flush(): Promise<void> {
+    this.flushing ??= this.drain().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Number of records waiting to be written.
+   */
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  private async drain(): Promise<void> {
+    while (this.pending.length > 0) {
+      const record = this.pending[0];
+      try {
+        await this.historyRepository.recordCheck(record);
+        this.pending.shift();
+      } catch (error) {
+        ErrorLogger.logError('Failed to persist check history, will retry', error, {
+          formId: record.formId,
+          pending: this.pending.length,
+        });
+        return;
+      }
+    }
+  }
+}
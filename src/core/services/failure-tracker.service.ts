@@ -0,0 +1,102 @@
+import { CircuitBreaker } from '@src/shared/api-clients/circuit-breaker.api-client';
+import { Form } from '@src/shared/types/types';
+import { log } from '@src/shared/utils/logger.util';
+
+import { NotificationDispatcher } from './notification-dispatcher.service';
+
+export interface FailureTrackerOptions {
+  /**
+   * Number of consecutive failed checks before a `site-not-working` alert is sent
+   * @default 3
+   */
+  threshold?: number;
+}
+
+interface FailureState {
+  consecutiveFailures: number;
+  lastError?: string;
+  alerted: boolean;
+  alertedAt?: number;
+}
+
+/**
+ * Tracks consecutive check failures per form. Sends one `site-not-working` alert once
+ * the failure threshold is reached or the form's circuit opens, and one
+ * `site-recovered` notice when a check succeeds again after an alert.
+ */
+export class FailureTracker {
+  private readonly states = new Map<string, FailureState>();
+  private readonly threshold: number;
+
+  constructor(
+    private readonly dispatcher: NotificationDispatcher,
+    private readonly circuitBreaker: CircuitBreaker,
+    options: FailureTrackerOptions = {}
+  ) {
+    this.threshold = options.threshold ?? 3;
+  }
+
+  /**
+   * Counts a failed check and alerts when the form is considered down.
+   */
+  async recordFailure(form: Form, error: unknown): Promise<void> {
+    const state = this.states.get(form.id) ?? { consecutiveFailures: 0, alerted: false };
+    state.consecutiveFailures += 1;
+    state.lastError = error instanceof Error ? error.message : String(error);
+    this.states.set(form.id, state);
+
+    if (state.alerted) return;
+
+    const circuitOpen = this.circuitBreaker.getState(form.id).isOpen;
+    if (state.consecutiveFailures < this.threshold && !circuitOpen) return;
+
+    state.alerted = true;
+    state.alertedAt = Date.now();
+
+    log.warn(`Form '${form.name}' is not reachable, sending alert`, {
+      formId: form.id,
+      consecutiveFailures: state.consecutiveFailures,
+      circuitOpen,
+    });
+
+    await this.dispatcher.send(form, {
+      template: 'site-not-working',
+      data: {
+        siteName: form.name,
+        url: form.url,
+        changeSummary: `${state.consecutiveFailures} consecutive checks failed. Last error: ${state.lastError}`,
+        status: 'unknown',
+      },
+    });
+  }
+
+  /**
+   * Resets the failure count and sends a recovery notice if the form was reported down.
+   */
+  async recordSuccess(form: Form): Promise<void> {
+    const state = this.states.get(form.id);
+    if (!state) return;
+
+    this.states.delete(form.id);
+    if (!state.alerted) return;
+
+    const downtimeMinutes = Math.round((Date.now() - (state.alertedAt ?? Date.now())) / 60000);
+    log.info(`Form '${form.name}' recovered`, { formId: form.id, downtimeMinutes });
+
+    await this.dispatcher.send(form, {
+      template: 'site-recovered',
+      data: {
+        siteName: form.name,
+        url: form.url,
+        changeSummary: `Checks are succeeding again after ${state.consecutiveFailures} failures (about ${downtimeMinutes} minutes since the alert).`,
+      },
+    });
+  }
+
+  /**
+   * Number of consecutive failures currently recorded for a form.
+   */
+  getConsecutiveFailures(formId: string): number {
+    return this.states.get(formId)?.consecutiveFailures ?? 0;
+  }
+}
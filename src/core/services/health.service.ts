@@ -0,0 +1,153 @@
+import { sql } from 'drizzle-orm';
+
+import { EmailNotifier } from '@src/infrastructure/notifiers';
+import { Database } from '@src/infrastructure/persistence/drizzle';
+import { DependencyCheck, HealthStatus, Metrics, ReadinessStatus } from '@src/shared/types/types';
+
+import { TimeoutError } from '../custom.errors';
+import { SchedulerStatus } from '../schedulers/job.scheduler';
+
+export interface HealthServiceOptions {
+  db: Database;
+  emailNotifier?: EmailNotifier;
+  environment: string;
+  getSchedulerStatus: () => SchedulerStatus;
+  getSchedulerStats: () => Metrics;
+
+  /**
+   * True while another instance holds the scheduler lease; a standby is ready without
+   * running the scheduler
+   */
+  isStandby?: () => boolean;
+
+  /**
+   * A running scheduler that has not ticked for this long is considered stuck
+   */
+  schedulerStaleAfterMs: number;
+
+  /**
+   * Upper bound for the database probe
+   * @default 5000
+   */
+  dbTimeoutMs?: number;
+
+  /**
+   * Minimum time between two SMTP re-verifications after a failure
+   * @default 60000
+   */
+  smtpRetryIntervalMs?: number;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, operation: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(`${operation} timed out`, operation)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Backs the liveness (`/healthz`) and readiness (`/readyz`) probes.
+ * Liveness only fails when the scheduler is stuck; readiness additionally requires
+ * the database and SMTP server to be reachable.
+ */
+export class HealthService {
+  private readonly dbTimeoutMs: number;
+  private readonly smtpRetryIntervalMs: number;
+
+  constructor(private readonly options: HealthServiceOptions) {
+    this.dbTimeoutMs = options.dbTimeoutMs ?? 5000;
+    this.smtpRetryIntervalMs = options.smtpRetryIntervalMs ?? 60000;
+  }
+
+  getHealth(): HealthStatus {
+    const scheduler = this.options.getSchedulerStatus();
+
+    return {
+      status: this.checkScheduler(scheduler, false).status === 'error' ? 'error' : 'ok',
+      environment: this.options.environment,
+      uptime: process.uptime(),
+      activeForms: scheduler.activeForms,
+      metrics: this.options.getSchedulerStats(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  async getReadiness(): Promise<ReadinessStatus> {
+    const checks: Record<string, DependencyCheck> = {
+      database: await this.checkDatabase(),
+      smtp: this.checkSmtp(),
+      scheduler: this.checkScheduler(this.options.getSchedulerStatus(), true),
+    };
+
+    return {
+      status: Object.values(checks).some((check) => check.status === 'error') ? 'error' : 'ok',
+      checks,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async checkDatabase(): Promise<DependencyCheck> {
+    const startTime = Date.now();
+
+    try {
+      await withTimeout(this.options.db.execute(sql`select 1`), this.dbTimeoutMs, 'database');
+      return { status: 'ok', latencyMs: Date.now() - startTime };
+    } catch (error) {
+      return {
+        status: 'error',
+        latencyMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Reports the last known SMTP state rather than connecting on every probe. After a
+   * failure a re-verification is started in the background at most once per retry interval.
+   */
+  private checkSmtp(): DependencyCheck {
+    const { emailNotifier } = this.options;
+    if (!emailNotifier) return { status: 'skipped' };
+
+    const state = emailNotifier.getConnectionState();
+    if (state.verified) return { status: 'ok', checkedAt: state.checkedAt };
+
+    const lastAttempt = state.checkedAt ? Date.parse(state.checkedAt) : 0;
+    if (state.checkedAt && Date.now() - lastAttempt >= this.smtpRetryIntervalMs) {
+      emailNotifier.verifyConnection().catch(() => undefined);
+    }
+
+    return {
+      status: 'error',
+      checkedAt: state.checkedAt,
+      error: state.error ?? 'SMTP connection not verified yet',
+    };
+  }
+
+  /**
+   * @param requireRunning Whether a scheduler that was not started yet counts as a failure
+   */
+  private checkScheduler(scheduler: SchedulerStatus, requireRunning: boolean): DependencyCheck {
+    if (!scheduler.running) {
+      if (this.options.isStandby?.()) return { status: 'ok', role: 'standby' };
+      return requireRunning
+        ? { status: 'error', error: 'Scheduler is not running' }
+        : { status: 'skipped' };
+    }
+
+    const sinceLastTick = scheduler.lastTickAt
+      ? Date.now() - Date.parse(scheduler.lastTickAt)
+      : Infinity;
+
+    if (sinceLastTick > this.options.schedulerStaleAfterMs) {
+      return {
+        status: 'error',
+        lastTickAt: scheduler.lastTickAt,
+        error: `Scheduler has not ticked for over ${this.options.schedulerStaleAfterMs}ms`,
+      };
+    }
+
+    return { status: 'ok', lastTickAt: scheduler.lastTickAt, activeForms: scheduler.activeForms };
+  }
+}
@@ -0,0 +1,146 @@
+import { LeaseRepository } from '@src/infrastructure/persistence/repositories';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+import { log } from '@src/shared/utils/logger.util';
+
+export interface LeaderElectorOptions {
+  /**
+   * Lease name; instances competing for the same name elect one leader
+   */
+  name: string;
+
+  /**
+   * Unique id of this instance
+   */
+  holderId: string;
+
+  /**
+   * How long a lease stays valid without renewal
+   */
+  ttlMs: number;
+
+  /**
+   * How often the lease is renewed, or acquisition retried by followers
+   */
+  renewIntervalMs: number;
+}
+
+export interface LeadershipHandlers {
+  onElected: () => Promise<void> | void;
+  onDemoted: () => Promise<void> | void;
+}
+
+/**
+ * Lease-based leader election on the `scheduler_leases` table. The leader renews its
+ * lease every `renewIntervalMs`; followers retry on the same interval and take over
+ * once the lease expires, e.g. because the leader died.
+ */
+export class LeaderElector {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private handlers: LeadershipHandlers | null = null;
+  private leader = false;
+  private resigned = false;
+  private lastRenewedAt = 0;
+  private attempt: Promise<void> | null = null;
+
+  constructor(
+    private readonly leaseRepository: LeaseRepository,
+    private readonly options: LeaderElectorOptions
+  ) {
+    if (options.renewIntervalMs >= options.ttlMs) {
+      throw new RangeError('Lease renew interval must be shorter than its TTL');
+    }
+  }
+
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  get holderId(): string {
+    return this.options.holderId;
+  }
+
+  /**
+   * Starts competing for the lease. Resolves after the first attempt.
+   */
+  async start(handlers: LeadershipHandlers): Promise<void> {
+    if (this.timer) return;
+
+    this.handlers = handlers;
+    this.timer = setInterval(() => void this.tryAcquire(), this.options.renewIntervalMs);
+    await this.tryAcquire();
+  }
+
+  /**
+   * Stops taking over leadership, e.g. at the start of a shutdown. A current leader keeps
+   * renewing its lease until `stop()`, so no other instance starts checking while the
+   * leader's last checks drain.
+   */
+  resign(): void {
+    this.resigned = true;
+  }
+
+  /**
+   * Stops renewing and releases the lease so a follower can take over immediately.
+   */
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.attempt;
+
+    if (this.leader) {
+      await this.setLeader(false);
+      await this.leaseRepository
+        .release(this.options.name, this.options.holderId)
+        .catch((error) => ErrorLogger.logError('Failed to release scheduler lease', error));
+    }
+    this.handlers = null;
+  }
+
+  private tryAcquire(): Promise<void> {
+    this.attempt ??= this.acquireOrRenew().finally(() => {
+      this.attempt = null;
+    });
+    return this.attempt;
+  }
+
+  private async acquireOrRenew(): Promise<void> {
+    const { name, holderId, ttlMs, renewIntervalMs } = this.options;
+    if (this.resigned && !this.leader) return;
+
+    try {
+      const acquired = await this.leaseRepository.tryAcquire(name, holderId, ttlMs);
+      if (acquired) this.lastRenewedAt = Date.now();
+      if (!this.resigned) await this.setLeader(acquired);
+    } catch (error) {
+      ErrorLogger.logError('Failed to acquire or renew scheduler lease', error, { holderId });
+
+      // Step down before the lease can expire, since another instance may take it over then
+      if (this.leader && Date.now() - this.lastRenewedAt >= ttlMs - renewIntervalMs) {
+        await this.setLeader(false);
+      }
+    }
+  }
+
+  private async setLeader(leader: boolean): Promise<void> {
+    if (leader === this.leader || !this.handlers) return;
+    this.leader = leader;
+
+    if (leader) {
+      log.info(`Instance ${this.options.holderId} is now the scheduler leader`);
+      await this.runHandler(this.handlers.onElected);
+    } else {
+      log.warn(`Instance ${this.options.holderId} is no longer the scheduler leader`);
+      await this.runHandler(this.handlers.onDemoted);
+    }
+  }
+
+  private async runHandler(handler: () => Promise<void> | void): Promise<void> {
+    try {
+      await handler();
+    } catch (error) {
+      ErrorLogger.logError('Leadership change handler failed', error, {
+        holderId: this.options.holderId,
+      });
+    }
+  }
+}
@@ -0,0 +1,354 @@
+import { NotifierRegistry } from '@src/infrastructure/notifiers';
+import { FormRepository, NotifierRepository } from '@src/infrastructure/persistence/repositories';
+import { WatcherType } from '@src/shared/enums/watcher-type.enum';
+import { NotificationDelivery, NotificationPayload } from '@src/shared/types/notification.types';
+import { FeedItem, Form, Notifier, WatcherResult } from '@src/shared/types/types';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+import { InFlightTracker } from '@src/shared/utils/in-flight.tracker.util';
+import { log } from '@src/shared/utils/logger.util';
+
+import { NotificationThrottle, ThrottleLimits } from './notification-throttle.service';
+
+export type TransitionReason = 'initial' | 'opened' | 'closed' | 'changed';
+
+export interface Transition {
+  notify: boolean;
+  reason?: TransitionReason;
+  previousStatus?: string;
+  status: WatcherResult['status'];
+
+  /**
+   * Set by `dispatch`: whether the notification reached at least one notifier, or the
+   * form has no enabled notifiers to reach
+   */
+  delivered?: boolean;
+}
+
+// Watchers whose `closed` means something is wrong, so it is reported from the first check
+const ALERT_WHEN_CLOSED: readonly WatcherType[] = [WatcherType.HttpStatus];
+
+/**
+ * Decides whether a check result is worth a notification, given the status the form
+ * had before the check:
+ * - first check of a form (no previous status), unless the form is closed; a down
+ *   site is reported for watchers in `ALERT_WHEN_CLOSED`
+ * - closed → open and open → closed
+ * - content changes reported by hash-based watchers
+ * An `initial` result on a form that was checked before only means the stored
+ * baseline was lost, so it is not reported.
+ */
+export function detectTransition(
+  previousStatus: string | undefined,
+  result: WatcherResult,
+  watcherType?: WatcherType
+): Transition {
+  const { status } = result;
+
+  if (previousStatus === undefined) {
+    const alertWhenClosed = watcherType !== undefined && ALERT_WHEN_CLOSED.includes(watcherType);
+    return { notify: status !== 'closed' || alertWhenClosed, reason: 'initial', status };
+  }
+
+  switch (status) {
+    case 'changed':
+      return { notify: true, reason: 'changed', previousStatus, status };
+    case 'open':
+    case 'closed':
+      return previousStatus === status
+        ? { notify: false, previousStatus, status }
+        : { notify: true, reason: status === 'open' ? 'opened' : 'closed', previousStatus, status };
+    default:
+      return { notify: false, previousStatus, status };
+  }
+}
+
+function describeNewItems(items: FeedItem[]): string {
+  const heading = items.length === 1 ? '1 new item:' : `${items.length} new items:`;
+  const lines = items.map((item) =>
+    item.link ? `- ${item.title} (${item.link})` : `- ${item.title}`
+  );
+  return [heading, ...lines].join('\n');
+}
+
+function describeTransition(transition: Transition, result: WatcherResult): string {
+  const { newItems, failures } = result;
+
+  switch (transition.reason) {
+    case 'opened':
+      return `The form is now open (was ${transition.previousStatus}).`;
+    case 'closed':
+      return [
+        `The form is now closed (was ${transition.previousStatus}).`,
+        ...(failures ?? []),
+      ].join('\n');
+    case 'changed':
+      return newItems?.length ? describeNewItems(newItems) : 'The monitored content has changed.';
+    case 'initial':
+      return [
+        `Monitoring started, current status: ${transition.status}.`,
+        ...(failures ?? []),
+      ].join('\n');
+    default:
+      return 'No changes detected';
+  }
+}
+
+function readNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * What a payload reports; the cooldown is kept separately for each kind.
+ */
+function notificationKind(payload: NotificationPayload): string {
+  const { previousStatus, status } = payload.data;
+  return [payload.template, previousStatus ?? '', status ?? ''].join(':');
+}
+
+function toPayloadStatus(status: WatcherResult['status']): 'open' | 'closed' | 'unknown' {
+  return status === 'open' || status === 'closed' ? status : 'unknown';
+}
+
+/**
+ * Turns watcher results into notifications and fans them out to every enabled
+ * notifier attached to the form.
+ */
+export class NotificationDispatcher {
+  private readonly inFlight = new InFlightTracker();
+
+  constructor(
+    private readonly formRepository: FormRepository,
+    private readonly notifierRepository: NotifierRepository,
+    private readonly throttle: NotificationThrottle
+  ) {}
+
+  /**
+   * Notifies the form's notifiers when the result is a notify-worthy transition.
+   * Never throws; delivery failures are logged and stored on the notifier row.
+   * @returns The transition that was detected, with `delivered` set when it was notified.
+   */
+  async dispatch(
+    form: Form,
+    result: WatcherResult,
+    previousStatus: string | undefined
+  ): Promise<Transition> {
+    const transition = detectTransition(previousStatus, result, form.watcherType);
+    if (!transition.notify) return transition;
+
+    log.info(`Form '${form.name}' transition detected: ${transition.reason}`, {
+      formId: form.id,
+      previousStatus,
+      status: result.status,
+    });
+
+    const deliveries = await this.sendThrottled(form, {
+      template: 'change-notification',
+      data: {
+        siteName: form.name,
+        url: form.url,
+        changeSummary: describeTransition(transition, result),
+        status: toPayloadStatus(result.status),
+        previousStatus,
+        hash: result.hash,
+        checkedAt: new Date().toISOString(),
+        newItems: result.newItems,
+      },
+    });
+
+    const delivered =
+      deliveries.some((delivery) => delivery.success) || this.enabledNotifiers(form).length === 0;
+    return { ...transition, delivered };
+  }
+
+  /**
+   * Sends a payload while enforcing the cooldown and daily cap, first for the form as a
+   * whole and then for each notifier. The cooldown is kept per kind of notification
+   * (see `notificationKind`), so repeats and flapping are held back. Notifiers whose cap is hit receive a
+   * single `daily-notification-limit-reached` notice instead, and nothing more that day.
+   * @returns Deliveries of the payload itself; limit notices sent in its place are not included.
+   */
+  async sendThrottled(form: Form, payload: NotificationPayload): Promise<NotificationDelivery[]> {
+    const now = Date.now();
+    const formKey = `form:${form.id}`;
+    const kind = notificationKind(payload);
+    const notifiers = this.enabledNotifiers(form);
+    const formDecision = this.throttle.check(formKey, undefined, kind, form.lastNotifiedAt, now);
+
+    if (formDecision === 'cooldown' || formDecision === 'limit-exhausted') {
+      log.info(`Notification for form '${form.name}' suppressed: ${formDecision}`, {
+        formId: form.id,
+        template: payload.template,
+      });
+      return [];
+    }
+
+    if (formDecision === 'limit-reached') {
+      this.throttle.markLimitNotified(formKey, now);
+      log.warn(`Daily notification limit reached for form '${form.name}'`, { formId: form.id });
+
+      // Notifiers that already hit their own cap got their notice earlier today
+      const pending = notifiers.filter(
+        (notifier) => !this.throttle.isLimitNotified(`notifier:${notifier.id}`, now)
+      );
+      for (const notifier of pending) {
+        this.throttle.markLimitNotified(`notifier:${notifier.id}`, now);
+      }
+      if (pending.length) await this.send(form, this.limitReachedPayload(form), pending);
+      return [];
+    }
+
+    const allowed: Notifier[] = [];
+    const limited: Notifier[] = [];
+
+    for (const notifier of notifiers) {
+      const key = `notifier:${notifier.id}`;
+      const decision = this.throttle.check(
+        key,
+        this.notifierLimits(notifier),
+        kind,
+        undefined,
+        now
+      );
+
+      if (decision === 'allow') {
+        allowed.push(notifier);
+      } else if (decision === 'limit-reached') {
+        this.throttle.markLimitNotified(key, now);
+        limited.push(notifier);
+      } else {
+        log.debug(`Notifier ${notifier.id} suppressed: ${decision}`, { formId: form.id });
+      }
+    }
+
+    const [deliveries] = await Promise.all([
+      allowed.length ? this.send(form, payload, allowed) : [],
+      limited.length ? this.send(form, this.limitReachedPayload(form), limited) : [],
+    ]);
+
+    const sent = deliveries.filter((delivery) => delivery.success);
+    for (const delivery of sent) {
+      this.throttle.recordSent(`notifier:${delivery.notifierId}`, kind, now);
+    }
+    if (sent.length > 0) {
+      this.throttle.recordSent(formKey, kind, now);
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Sends a payload through every enabled notifier of the form, concurrently.
+   * One failing channel does not prevent delivery on the others.
+   */
+  async send(
+    form: Form,
+    payload: NotificationPayload,
+    notifiers: Notifier[] = this.enabledNotifiers(form)
+  ): Promise<NotificationDelivery[]> {
+    if (notifiers.length === 0) {
+      log.debug(`No enabled notifiers for form '${form.name}'`, { formId: form.id });
+      return [];
+    }
+
+    const deliveries = await this.inFlight.track(
+      Promise.all(notifiers.map((notifier) => this.deliver(form, payload, notifier)))
+    );
+
+    if (deliveries.some((delivery) => delivery.success)) {
+      await this.formRepository
+        .markNotified(form.id)
+        .catch((error) =>
+          ErrorLogger.logError('Failed to update last_notified_at', error, { formId: form.id })
+        );
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Waits for deliveries that are still being sent.
+   * @returns False if deliveries were still running when the timeout elapsed.
+   */
+  drain(timeoutMs: number): Promise<boolean> {
+    return this.inFlight.drain(timeoutMs);
+  }
+
+  /**
+   * Per-notifier limits, overridable through `customVars.cooldownMs` and `customVars.dailyLimit`.
+   */
+  private notifierLimits(notifier: Notifier): ThrottleLimits {
+    return {
+      cooldownMs: readNumber(notifier.customVars?.cooldownMs) ?? this.throttle.defaults.cooldownMs,
+      dailyLimit: readNumber(notifier.customVars?.dailyLimit) ?? this.throttle.defaults.dailyLimit,
+    };
+  }
+
+  private limitReachedPayload(form: Form): NotificationPayload {
+    return {
+      template: 'daily-notification-limit-reached',
+      data: { siteName: form.name, url: form.url },
+    };
+  }
+
+  private enabledNotifiers(form: Form): Notifier[] {
+    return (form.notifiers ?? []).filter((notifier) => notifier.enabled !== false);
+  }
+
+  private async deliver(
+    form: Form,
+    payload: NotificationPayload,
+    notifier: Notifier
+  ): Promise<NotificationDelivery> {
+    const delivery: NotificationDelivery = {
+      notifierId: notifier.id,
+      strategy: notifier.strategy,
+      success: false,
+    };
+
+    try {
+      const strategy = NotifierRegistry.get(notifier.strategy);
+      if (!strategy) {
+        throw new Error(`Notifier strategy '${notifier.strategy}' is not configured`);
+      }
+
+      const report = await strategy.send(form, payload, notifier);
+      delivery.success = true;
+      if (report?.rejected.length) delivery.rejected = report.rejected;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      delivery.error = err.message;
+
+      await this.notifierRepository.recordFailure(notifier.id, err.message).catch((dbError) =>
+        ErrorLogger.logError('Failed to record notifier failure', dbError, {
+          formId: form.id,
+          notifierId: notifier.id,
+        })
+      );
+    }
+
+    if (delivery.rejected) {
+      // Partial delivery: keep it visible on the notifier row without failing the delivery
+      const rejected = delivery.rejected
+        .map(({ recipient, reason }) => (reason ? `${recipient} (${reason})` : recipient))
+        .join(', ');
+      await this.notifierRepository
+        .recordFailure(notifier.id, `Rejected recipients: ${rejected}`)
+        .catch((dbError) =>
+          ErrorLogger.logError('Failed to record rejected recipients', dbError, {
+            formId: form.id,
+            notifierId: notifier.id,
+          })
+        );
+    } else if (delivery.success && (notifier.retryCount || notifier.lastError)) {
+      await this.notifierRepository.recordSuccess(notifier.id).catch((dbError) =>
+        ErrorLogger.logError('Failed to reset notifier failure state', dbError, {
+          formId: form.id,
+          notifierId: notifier.id,
+        })
+      );
+    }
+
+    return delivery;
+  }
+}
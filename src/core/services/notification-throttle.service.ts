@@ -0,0 +1,147 @@
+import { DateTime } from 'luxon';
+
+export interface ThrottleLimits {
+  /**
+   * Minimum time between two notifications of the same kind in milliseconds
+   */
+  cooldownMs: number;
+
+  /**
+   * Maximum number of notifications per calendar day
+   */
+  dailyLimit: number;
+}
+
+export interface NotificationThrottleOptions extends ThrottleLimits {
+  /**
+   * Timezone used to decide when a new day starts
+   * @default 'UTC'
+   */
+  timezone?: string;
+}
+
+/**
+ * - `allow`: the notification may be sent
+ * - `cooldown`: a notification of the same kind was sent too recently
+ * - `limit-reached`: the daily cap was just hit; send the limit notice once
+ * - `limit-exhausted`: the cap was hit and the limit notice already went out today
+ */
+export type ThrottleDecision = 'allow' | 'cooldown' | 'limit-reached' | 'limit-exhausted';
+
+interface ThrottleState {
+  /**
+   * Last send time per kind of notification
+   */
+  sentAt: Map<string, number>;
+
+  /**
+   * Last send time of any kind, known from before a restart
+   */
+  seededAt?: number;
+  day: string;
+  count: number;
+  limitNotified: boolean;
+}
+
+/**
+ * In-memory cooldown and daily cap bookkeeping for notification keys
+ * (typically one per form and one per notifier).
+ */
+export class NotificationThrottle {
+  private readonly states = new Map<string, ThrottleState>();
+  private readonly timezone: string;
+  readonly defaults: ThrottleLimits;
+
+  constructor(options: NotificationThrottleOptions) {
+    this.timezone = options.timezone ?? 'UTC';
+    this.defaults = { cooldownMs: options.cooldownMs, dailyLimit: options.dailyLimit };
+  }
+
+  /**
+   * Decides whether a notification may be sent for a key. The cooldown runs per kind of
+   * notification: a different kind (e.g. the opposite transition) goes out right away,
+   * but a form flapping back and forth repeats both kinds and is held back.
+   * @param key Throttle key
+   * @param limits Limits for this key, defaults to the configured ones
+   * @param kind What the notification reports, e.g. its template and transition
+   * @param lastSentAt Last known send time, used when the key has no state yet (e.g. after a restart)
+   */
+  check(
+    key: string,
+    limits: ThrottleLimits = this.defaults,
+    kind = '',
+    lastSentAt?: string,
+    now = Date.now()
+  ): ThrottleDecision {
+    const state = this.getState(key, now, lastSentAt);
+
+    if (state.count >= limits.dailyLimit) {
+      return state.limitNotified ? 'limit-exhausted' : 'limit-reached';
+    }
+
+    const previous = Math.max(state.sentAt.get(kind) ?? -Infinity, state.seededAt ?? -Infinity);
+    if (now - previous < limits.cooldownMs) {
+      return 'cooldown';
+    }
+
+    return 'allow';
+  }
+
+  /**
+   * Counts a sent notification against the key's cooldown and daily cap.
+   */
+  recordSent(key: string, kind = '', now = Date.now()): void {
+    const state = this.getState(key, now);
+    state.sentAt.set(kind, now);
+    state.count += 1;
+  }
+
+  /**
+   * Remembers that the daily limit notice went out for the key today.
+   */
+  markLimitNotified(key: string, now = Date.now()): void {
+    this.getState(key, now).limitNotified = true;
+  }
+
+  /**
+   * Whether the daily limit notice already went out for the key today.
+   */
+  isLimitNotified(key: string, now = Date.now()): boolean {
+    return this.getState(key, now).limitNotified;
+  }
+
+  /**
+   * Forgets all state for a key.
+   */
+  reset(key: string): void {
+    this.states.delete(key);
+  }
+
+  private getState(key: string, now: number, lastSentAt?: string): ThrottleState {
+    const day = DateTime.fromMillis(now, { zone: this.timezone }).toISODate() ?? '';
+    let state = this.states.get(key);
+
+    if (!state) {
+      // The kind of the seeded notification is unknown, so it holds back every kind and
+      // counts once against today's cap when it was sent today
+      const seeded = lastSentAt ? Date.parse(lastSentAt) : NaN;
+      const known = !Number.isNaN(seeded);
+      const sentToday =
+        known && DateTime.fromMillis(seeded, { zone: this.timezone }).toISODate() === day;
+      state = {
+        sentAt: new Map(),
+        seededAt: known ? seeded : undefined,
+        day,
+        count: sentToday ? 1 : 0,
+        limitNotified: false,
+      };
+      this.states.set(key, state);
+    } else if (state.day !== day) {
+      state.day = day;
+      state.count = 0;
+      state.limitNotified = false;
+    }
+
+    return state;
+  }
+}
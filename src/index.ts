@@ -1,20 +1,32 @@
 import { env } from '@src/core/config/env.config';
+import { INJECTABLES } from '@src/shared/enums/enums';
 import { log } from '@src/shared/utils/logger.util';
 
 import { ServiceLifecycleManager } from './core/config/lifecycle.manager.config';
+import { ShutdownCoordinator } from './core/config/shutdown.coordinator.config';
 import { CacheInitializer } from './core/initializers/cache.initializer';
+import { CheckRecorderInitializer } from './core/initializers/check-recorder.initializer';
 import { CircuitBreakerInitializer } from './core/initializers/circuit-breaker.initializer';
 import { ContentFetcherInitializer } from './core/initializers/content-fetcher.initializer';
+import { FailureTrackerInitializer } from './core/initializers/failure-tracker.initializer';
 import { HashGeneratorInitializer } from './core/initializers/hash-generator.initializer';
 import { HttpClientInitializer } from './core/initializers/http-client.initializer';
+import { HttpServerInitializer } from './core/initializers/http-server.initializer';
+import { LeaderElectionInitializer } from './core/initializers/leader-election.initializer';
 import { MetricsInitializer } from './core/initializers/metrics.initializer';
+import { NotificationDispatcherInitializer } from './core/initializers/notification-dispatcher.initializer';
 import { NotifiersInitializer } from './core/initializers/notifiers.initializer';
+import { PersistenceInitializer } from './core/initializers/persistence.initializer';
 import { RateLimiterInitializer } from './core/initializers/rate-limiter.initializer';
 import { RequestDeduplicatorInitializer } from './core/initializers/request-deduplicator.initializer';
 import { SecretRotatorInitializer } from './core/initializers/secret-rotation.initializer';
+import { StateStoreInitializer } from './core/initializers/state-store.initializer';
 import { WatchersInitializer } from './core/initializers/watchers.initializer';
 import { JobScheduler } from './core/schedulers/job.scheduler';
 import container from './core/service.container';
+import { CheckRecorder } from './core/services/check-recorder.service';
+import { LeaderElector } from './core/services/leader-elector.service';
+import { NotificationDispatcher } from './core/services/notification-dispatcher.service';
 
 // Load environment variables from .env file
 async function main() {
@@ -23,9 +35,12 @@ async function main() {
     console.log('Environment:', env.NODE_ENV);
 
     const initializers = [
+      new PersistenceInitializer(),
+      new CheckRecorderInitializer(),
       new HttpClientInitializer(env),
       new RateLimiterInitializer(env),
       new CacheInitializer(env),
+      new StateStoreInitializer(env),
       new ContentFetcherInitializer(),
 
       new SecretRotatorInitializer(),
@@ -34,7 +49,11 @@ async function main() {
       new HashGeneratorInitializer(),
       new MetricsInitializer(),
       new NotifiersInitializer(env),
+      new NotificationDispatcherInitializer(env),
+      new FailureTrackerInitializer(env),
       new WatchersInitializer(),
+      new LeaderElectionInitializer(env),
+      new HttpServerInitializer(env),
     ];
 
     const manager = new ServiceLifecycleManager(container, initializers);
@@ -43,8 +62,37 @@ async function main() {
 
     log.info('Application started successfully');
 
-    // Start the job scheduler to keep the application running
-    JobScheduler.start();
+    const checkRecorder = container.get<CheckRecorder>(INJECTABLES.CHECK_RECORDER);
+    const dispatcher = container.get<NotificationDispatcher>(INJECTABLES.NOTIFICATION_DISPATCHER);
+    const elector = container.has(INJECTABLES.LEADER_ELECTOR)
+      ? container.get<LeaderElector>(INJECTABLES.LEADER_ELECTOR)
+      : undefined;
+
+    // Stop scheduling, let running checks and sends finish, persist history, then clean up
+    new ShutdownCoordinator({ timeoutMs: env.SHUTDOWN_TIMEOUT_MS })
+      .addStep('stop scheduler', () => {
+        elector?.resign();
+        JobScheduler.stop();
+      })
+      .addStep('drain checks', (remainingMs) => JobScheduler.drain(remainingMs))
+      .addStep('drain notifications', (remainingMs) => dispatcher.drain(remainingMs))
+      .addStep('flush check history', async () => {
+        await checkRecorder.flush();
+        return checkRecorder.pendingCount === 0;
+      })
+      .addStep('cleanup services', () => manager.cleanup())
+      .listen();
+
+    // Start the job scheduler to keep the application running. With leader election
+    // only the instance holding the lease schedules checks.
+    if (elector) {
+      await elector.start({
+        onElected: () => JobScheduler.start(container),
+        onDemoted: () => JobScheduler.stop(),
+      });
+    } else {
+      await JobScheduler.start(container);
+    }
   } catch (error) {
     log.error(
       'Failed to start application',
@@ -0,0 +1,40 @@
+export interface CacheEntry<T> {
+  value: T;
+
+  /**
+   * Epoch milliseconds after which the entry is stale
+   */
+  expiresAt: number;
+
+  /**
+   * Epoch milliseconds after which the entry may no longer be served, not even stale.
+   * Equal to `expiresAt` when stale-while-revalidate is off.
+   */
+  staleUntil: number;
+
+  /**
+   * Epoch milliseconds when the value was stored. Missing on entries persisted by
+   * earlier versions.
+   */
+  storedAt?: number;
+}
+
+/**
+ * Storage backend for `Cache`. Stores drop entries once `staleUntil` has passed and
+ * decide on their own how to stay within their size limits.
+ */
+export interface CacheStore<T = unknown> {
+  get(key: string): Promise<CacheEntry<T> | undefined>;
+  set(key: string, entry: CacheEntry<T>): Promise<void>;
+
+  /**
+   * @returns True if an entry was removed.
+   */
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+
+  /**
+   * Stops timers and closes connections. The store is not used afterwards.
+   */
+  close(): Promise<void>;
+}
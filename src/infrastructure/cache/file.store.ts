@@ -0,0 +1,162 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { log } from '@src/shared/utils/logger.util';
+
+import { CacheEntry, CacheStore } from './cache.store';
+
+export interface FileCacheStoreOptions {
+  /**
+   * Directory holding one JSON file per entry
+   */
+  directory: string;
+
+  /**
+   * Maximum number of entries kept after a sweep
+   */
+  maxSize: number;
+
+  /**
+   * Interval of the sweep removing expired and least recently used entries
+   * @default 60000
+   */
+  cleanupIntervalMs?: number;
+}
+
+interface StoredEntry<T> extends CacheEntry<T> {
+  key: string;
+}
+
+/**
+ * Persistent store keeping one JSON file per entry, so cached content survives
+ * restarts without an external service. Reads bump the file's modification time,
+ * which the periodic sweep uses to evict the least recently used entries once the
+ * directory holds more than `maxSize` of them. Values must be JSON-serializable.
+ */
+export class FileCacheStore<T = unknown> implements CacheStore<T> {
+  private cleanupInterval: ReturnType<typeof setInterval> | null;
+  private sweeping: Promise<void> | null = null;
+
+  constructor(private readonly options: FileCacheStoreOptions) {
+    this.cleanupInterval = setInterval(() => {
+      this.sweeping ??= this.sweep()
+        .catch((error) =>
+          log.warn('Cache directory sweep failed', {
+            directory: options.directory,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        )
+        .finally(() => {
+          this.sweeping = null;
+        });
+    }, options.cleanupIntervalMs ?? 60000).unref();
+  }
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const filePath = this.pathOf(key);
+    const entry = await this.read(filePath);
+    if (!entry || entry.key !== key) return undefined;
+
+    if (entry.staleUntil <= Date.now()) {
+      await rm(filePath, { force: true });
+      return undefined;
+    }
+
+    const now = new Date();
+    await utimes(filePath, now, now).catch(() => undefined);
+    return {
+      value: entry.value,
+      expiresAt: entry.expiresAt,
+      staleUntil: entry.staleUntil,
+      storedAt: entry.storedAt,
+    };
+  }
+
+  async set(key: string, entry: CacheEntry<T>): Promise<void> {
+    const filePath = this.pathOf(key);
+    // Unique temp name so concurrent writes of the same key can't interleave
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    const stored: StoredEntry<T> = { key, ...entry };
+
+    await mkdir(this.options.directory, { recursive: true });
+    await writeFile(tempPath, JSON.stringify(stored));
+    await rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const filePath = this.pathOf(key);
+    const exists = await stat(filePath).then(
+      () => true,
+      () => false
+    );
+
+    await rm(filePath, { force: true });
+    return exists;
+  }
+
+  async clear(): Promise<void> {
+    for (const file of await this.listFiles()) {
+      await rm(join(this.options.directory, file), { force: true });
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    await this.sweeping;
+  }
+
+  /**
+   * Removes entries past `staleUntil`, then the least recently used ones above `maxSize`.
+   */
+  private async sweep(): Promise<void> {
+    const now = Date.now();
+    const live: { filePath: string; usedAt: number }[] = [];
+
+    for (const file of await this.listFiles()) {
+      const filePath = join(this.options.directory, file);
+      const entry = await this.read(filePath);
+
+      if (!entry || entry.staleUntil <= now) {
+        await rm(filePath, { force: true });
+        continue;
+      }
+
+      const stats = await stat(filePath).catch(() => null);
+      if (stats) live.push({ filePath, usedAt: stats.mtimeMs });
+    }
+
+    live.sort((a, b) => a.usedAt - b.usedAt);
+    for (const { filePath } of live.slice(0, Math.max(0, live.length - this.options.maxSize))) {
+      await rm(filePath, { force: true });
+    }
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      return (await readdir(this.options.directory)).filter((file) => file.endsWith('.json'));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Reads an entry, treating missing and unreadable files as absent.
+   */
+  private async read(filePath: string): Promise<StoredEntry<T> | undefined> {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8')) as StoredEntry<T>;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private pathOf(key: string): string {
+    const name = createHash('sha256').update(key).digest('hex');
+    return join(this.options.directory, `${name}.json`);
+  }
+}
@@ -1,6 +1,15 @@
 import { log } from '@src/shared/utils/logger.util';
 
-export interface CacheOptions<T = any> {
+import { CacheEntry, CacheStore } from './cache.store';
+import { MemoryCacheStore } from './memory.store';
+
+export * from './cache.store';
+export * from './file.store';
+export * from './memory.store';
+export * from './redis.store';
+export * from './resp.client';
+
+export interface CacheOptions<T = unknown> {
   /**
    * Time to live in milliseconds
    * @default 300000 (5 minutes)
@@ -8,82 +17,78 @@ export interface CacheOptions<T = any> {
   ttl?: number;
 
   /**
-   * Maximum number of items to store in the cache
+   * Maximum number of items kept by the default in-memory store
    * @default 100
    */
   maxSize?: number;
 
   /**
-   * Whether to return stale data while fetching fresh data in the background
+   * Whether `getOrLoad` returns expired data while fetching fresh data in the background
    * @default false
    */
   staleWhileRevalidate?: boolean;
 
+  /**
+   * How long after expiring an item may still be served stale, in milliseconds
+   * @default ttl
+   */
+  staleTtl?: number;
+
+  /**
+   * Storage backend
+   * @default MemoryCacheStore
+   */
+  store?: CacheStore<T>;
+
   /**
    * Function to generate a cache key from the arguments
    */
-  keyGenerator?: (...args: any[]) => string;
+  keyGenerator?: (...args: unknown[]) => string;
 
   /**
-   * Callback when an item is evicted from the cache
+   * Callback when an item is evicted from the default in-memory store
    */
   onEvict?: (key: string, value: T) => void;
 }
 
-interface CacheItem<T> {
+/**
+ * - `hit`: a fresh value was found
+ * - `stale`: an expired value was served and is being refreshed in the background
+ * - `miss`: the value was loaded
+ */
+export type CacheLookupState = 'hit' | 'stale' | 'miss';
+
+export interface CacheLookup<T> {
   value: T;
-  expiresAt: number;
-  lastAccess: number;
-  isFetching: boolean;
+  state: CacheLookupState;
 }
 
 /**
- * A simple in-memory cache with TTL support
+ * A cache with TTL and optional stale-while-revalidate on top of a pluggable store.
+ * Store failures are logged and treated as misses, so an unavailable backend only
+ * costs extra fetches.
  */
-export class Cache<T = any> {
-  private readonly store = new Map<string, CacheItem<T>>();
-  private readonly options: Required<Omit<CacheOptions<T>, 'onEvict' | 'keyGenerator'>> & {
-    keyGenerator: (...args: any[]) => string;
-    onEvict?: (key: string, value: T) => void;
-  };
-  private cleanupInterval: NodeJS.Timeout | null = null;
+export class Cache<T = unknown> {
+  private readonly store: CacheStore<T>;
+  private readonly options: Required<Omit<CacheOptions<T>, 'onEvict' | 'store'>>;
+  private readonly loading = new Map<string, Promise<T>>();
+  private readonly counts = { hit: 0, stale: 0, miss: 0 };
 
   constructor(options: CacheOptions<T> = {}) {
+    const ttl = options.ttl ?? 300000; // 5 minutes
+
     this.options = {
-      ttl: options.ttl ?? 300000, // 5 minutes
+      ttl,
       maxSize: options.maxSize ?? 100, // Default max size of 100 items
       staleWhileRevalidate: options.staleWhileRevalidate ?? false,
+      staleTtl: options.staleTtl ?? ttl,
       keyGenerator: options.keyGenerator ?? ((...args) => JSON.stringify(args)),
-      onEvict: options.onEvict,
     };
-
-    // Start cleanup interval
-    this.startCleanup();
+    this.store =
+      options.store ??
+      new MemoryCacheStore<T>({ maxSize: this.options.maxSize, onEvict: options.onEvict });
   }
 
-  /**
-   * Start the periodic cleanup of expired items
-   */
-  private startCleanup(interval: number = 60000): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-    }
-
-    this.cleanupInterval = setInterval(() => {
-      try {
-        this.cleanup();
-      } catch (error) {
-        log.error(
-          'Cache cleanup error:',
-          error instanceof Error ? error : new Error(String(error))
-        );
-      }
-    }, interval).unref();
-  }
-
-  /**
-   * Stop the cleanup interval
-   */
   /**
    * Compares a new value with the existing value for a key and updates it.
    * Returns the status of the comparison.
@@ -91,7 +96,10 @@ export class Cache<T = any> {
    * @param newValue The new value to compare and set.
    * @returns 'initial' | 'changed' | 'unchanged'
    */
-  public async compareAndSet(key: string, newValue: T): Promise<'initial' | 'changed' | 'unchanged'> {
+  public async compareAndSet(
+    key: string,
+    newValue: T
+  ): Promise<'initial' | 'changed' | 'unchanged'> {
     const previousValue = await this.get(key);
     await this.set(key, newValue);
 
@@ -106,140 +114,100 @@ export class Cache<T = any> {
     return 'changed';
   }
 
-  stopCleanup(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = null;
-    }
-  }
-
-  /**
-   * Remove all expired items from the cache
-   */
-  private cleanup(): void {
-    const now = Date.now();
-
-    // Clean up expired items first
-    for (const [key, item] of this.store.entries()) {
-      if (item.expiresAt <= now) {
-        this.evict(key, item);
-      }
-    }
-
-    // If we're still over max size, remove the least recently used items
-    if (this.store.size > this.options.maxSize) {
-      const entries = Array.from(this.store.entries()).sort(
-        (a, b) => a[1].lastAccess - b[1].lastAccess
-      );
-
-      while (this.store.size > this.options.maxSize && entries.length > 0) {
-        const [key, item] = entries.shift()!;
-        this.evict(key, item);
-      }
-    }
-  }
-
   /**
-   * Evict an item from the cache
+   * Set a value in the cache
    */
-  private evict(key: string, item: CacheItem<T>): void {
-    this.store.delete(key);
-    if (this.options.onEvict) {
-      try {
-        this.options.onEvict(key, item.value);
-      } catch (error) {
-        log.error(
-          'Error in onEvict callback:',
-          error instanceof Error ? error : new Error(String(error))
-        );
-      }
+  async set(key: string, value: T, ttl?: number): Promise<void> {
+    const storedAt = Date.now();
+    const expiresAt = storedAt + (ttl ?? this.options.ttl);
+    const staleUntil = this.options.staleWhileRevalidate
+      ? expiresAt + this.options.staleTtl
+      : expiresAt;
+
+    try {
+      await this.store.set(key, { value, expiresAt, staleUntil, storedAt });
+    } catch (error) {
+      this.logStoreError('write', key, error);
     }
   }
 
   /**
-   * Set a value in the cache
+   * Get a fresh value from the cache. Stale values are only served through `getOrLoad`,
+   * which can refresh them.
    */
-  set(key: string, value: T, ttl?: number): void {
-    const now = Date.now();
-    const expiresAt = now + (ttl ?? this.options.ttl);
-
-    this.store.set(key, {
-      value,
-      expiresAt,
-      lastAccess: now,
-      isFetching: false,
-    });
+  async get(key: string): Promise<T | undefined> {
+    const entry = await this.readEntry(key);
+    return entry && entry.expiresAt > Date.now() ? entry.value : undefined;
   }
 
   /**
-   * Get a value from the cache
+   * Returns the cached value, loading and storing it on a miss. With
+   * `staleWhileRevalidate`, an expired value is returned right away while `loader`
+   * refreshes it in the background. Concurrent loads of the same key share one call.
+   * @param storedAfter Epoch milliseconds; entries stored at or before it are neither
+   * served fresh nor stale but loaded again.
    */
-  get(key: string): T | undefined {
-    const now = Date.now();
-    const item = this.store.get(key);
-
-    if (!item) {
-      return undefined;
+  async getOrLoad(
+    key: string,
+    loader: () => Promise<T>,
+    ttl?: number,
+    storedAfter?: number
+  ): Promise<CacheLookup<T>> {
+    const cached = await this.readEntry(key);
+    const entry =
+      cached && (storedAfter === undefined || (cached.storedAt ?? 0) > storedAfter)
+        ? cached
+        : undefined;
+
+    if (entry && entry.expiresAt > Date.now()) {
+      this.counts.hit += 1;
+      return { value: entry.value, state: 'hit' };
     }
 
-    // Check if the item has expired
-    if (item.expiresAt <= now) {
-      if (!this.options.staleWhileRevalidate || item.isFetching) {
-        this.store.delete(key);
-        return undefined;
-      }
-      // Mark as fetching to prevent multiple concurrent fetches
-      item.isFetching = true;
-      return item.value; // Return stale data while fetching fresh data
+    if (entry && this.options.staleWhileRevalidate) {
+      this.counts.stale += 1;
+      this.load(key, loader, ttl).catch((error) =>
+        log.warn(`Background refresh of cache key '${key}' failed, serving stale value`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      );
+      return { value: entry.value, state: 'stale' };
     }
 
-    // Update last access time
-    item.lastAccess = now;
-    return item.value;
+    this.counts.miss += 1;
+    return { value: await this.load(key, loader, ttl), state: 'miss' };
   }
 
   /**
    * Delete a value from the cache
    */
-  delete(key: string): boolean {
-    const item = this.store.get(key);
-    if (item) {
-      this.evict(key, item);
-      return true;
+  async delete(key: string): Promise<boolean> {
+    try {
+      return await this.store.delete(key);
+    } catch (error) {
+      this.logStoreError('delete', key, error);
+      return false;
     }
-    return false;
   }
 
   /**
    * Clear all items from the cache
    */
-  clear(): void {
-    if (this.options.onEvict) {
-      for (const [key, item] of this.store.entries()) {
-        try {
-          this.options.onEvict(key, item.value);
-        } catch (error) {
-          log.error(
-            'Error in onEvict callback during clear:',
-            error instanceof Error ? error : new Error(String(error))
-          );
-        }
-      }
-    }
-    this.store.clear();
+  async clear(): Promise<void> {
+    await this.store.clear();
   }
 
   /**
-   * Get the number of items in the cache
+   * Releases the store's timers and connections
    */
-  get size(): number {
-    return this.store.size;
+  async close(): Promise<void> {
+    await this.store.close();
   }
 
   /**
    * Execute a function with caching
    */
-  async wrap<U extends any[] = any[], R = any>(
+  async wrap<U extends unknown[] = unknown[], R = unknown>(
     fn: (...args: U) => Promise<R> | R,
     keyOrOptions?: string | CacheOptions<R>,
     ...args: U
@@ -251,46 +219,64 @@ export class Cache<T = any> {
       ? options.keyGenerator(...args)
       : this.options.keyGenerator(...args);
 
-    const cached = this.get(key);
-    if (cached !== undefined) {
-      return cached as unknown as R; // Add explicit casting
-    }
-
-    const result = await fn(...args);
-    this.set(key, result as unknown as T, options.ttl); // Add explicit casting
-    return result;
+    const { value } = await this.getOrLoad(
+      key,
+      async () => (await fn(...args)) as unknown as T,
+      options.ttl
+    );
+    return value as unknown as R;
   }
 
   /**
-   * Get cache statistics
+   * Get lookup statistics since the cache was created. Stale lookups count as hits.
    */
   stats(): {
-    size: number;
     hitCount: number;
+    staleCount: number;
     missCount: number;
     hitRate: number;
   } {
-    let hitCount = 0;
-    let missCount = 0;
-
-    for (const item of this.store.values()) {
-      if (item.expiresAt > Date.now()) {
-        hitCount++;
-      } else {
-        missCount++;
-      }
-    }
-
-    const total = hitCount + missCount;
-    const hitRate = total > 0 ? hitCount / total : 0;
+    const hitCount = this.counts.hit + this.counts.stale;
+    const total = hitCount + this.counts.miss;
 
     return {
-      size: this.store.size,
       hitCount,
-      missCount,
-      hitRate,
+      staleCount: this.counts.stale,
+      missCount: this.counts.miss,
+      hitRate: total > 0 ? hitCount / total : 0,
     };
   }
+
+  private load(key: string, loader: () => Promise<T>, ttl?: number): Promise<T> {
+    let pending = this.loading.get(key);
+
+    if (!pending) {
+      pending = loader()
+        .then(async (value) => {
+          await this.set(key, value, ttl);
+          return value;
+        })
+        .finally(() => this.loading.delete(key));
+      this.loading.set(key, pending);
+    }
+
+    return pending;
+  }
+
+  private async readEntry(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      this.logStoreError('read', key, error);
+      return undefined;
+    }
+  }
+
+  private logStoreError(operation: string, key: string, error: unknown): void {
+    log.warn(`Cache store ${operation} failed for key '${key}'`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
 }
 
 // Default cache instance
@@ -303,25 +289,23 @@ export const defaultCache = new Cache({
 /**
  * Cache decorator for class methods
  */
-export function cache<T = any>(options: CacheOptions<T> = {}): Function {
+export function cache<T = unknown>(options: CacheOptions<T> = {}): Function {
   const cacheInstance = new Cache<T>(options);
 
-  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+  return function (target: object, propertyKey: string, descriptor: PropertyDescriptor) {
     const originalMethod = descriptor.value;
 
-    descriptor.value = async function (...args: any[]) {
+    descriptor.value = async function (...args: unknown[]) {
       const key = options.keyGenerator
         ? options.keyGenerator(...args)
         : `${target.constructor.name}.${propertyKey}:${JSON.stringify(args)}`;
 
-      const cached = cacheInstance.get(key);
-      if (cached !== undefined) {
-        return cached;
-      }
-
-      const result = await originalMethod.apply(this, args);
-      cacheInstance.set(key, result, options.ttl);
-      return result;
+      const { value } = await cacheInstance.getOrLoad(
+        key,
+        () => originalMethod.apply(this, args),
+        options.ttl
+      );
+      return value;
     };
 
     return descriptor;
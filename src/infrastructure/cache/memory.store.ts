@@ -0,0 +1,108 @@
+import { log } from '@src/shared/utils/logger.util';
+
+import { CacheEntry, CacheStore } from './cache.store';
+
+export interface MemoryCacheStoreOptions<T> {
+  /**
+   * Maximum number of entries; the least recently used entry is evicted beyond it
+   */
+  maxSize: number;
+
+  /**
+   * Interval of the sweep removing entries past `staleUntil`
+   * @default 60000
+   */
+  cleanupIntervalMs?: number;
+
+  /**
+   * Called when an entry is evicted, expires or is deleted
+   */
+  onEvict?: (key: string, value: T) => void;
+}
+
+/**
+ * Process-local store with least-recently-used eviction. A `Map` keeps insertion
+ * order, so every read re-inserts the entry and the first key is always the least
+ * recently used one.
+ */
+export class MemoryCacheStore<T = unknown> implements CacheStore<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private cleanupInterval: ReturnType<typeof setInterval> | null;
+
+  constructor(private readonly options: MemoryCacheStoreOptions<T>) {
+    this.cleanupInterval = setInterval(
+      () => this.removeExpired(),
+      options.cleanupIntervalMs ?? 60000
+    ).unref();
+  }
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.staleUntil <= Date.now()) {
+      this.evict(key, entry);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.options.maxSize) {
+      const [oldestKey, oldest] = this.entries.entries().next().value as [string, CacheEntry<T>];
+      this.evict(oldestKey, oldest);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    this.evict(key, entry);
+    return true;
+  }
+
+  async clear(): Promise<void> {
+    for (const [key, entry] of Array.from(this.entries)) {
+      this.evict(key, entry);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (entry.staleUntil <= now) this.evict(key, entry);
+    }
+  }
+
+  private evict(key: string, entry: CacheEntry<T>): void {
+    this.entries.delete(key);
+    if (!this.options.onEvict) return;
+
+    try {
+      this.options.onEvict(key, entry.value);
+    } catch (error) {
+      log.error(
+        'Error in onEvict callback:',
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { CacheEntry, CacheStore } from './cache.store';
+import { RespClient } from './resp.client';
+
+/**
+ * Store shared between instances, backed by Redis or any server speaking its
+ * protocol. Entries are written with a `PX` expiry at `staleUntil`; eviction under
+ * memory pressure is left to the server's `maxmemory-policy`.
+ * Values must be JSON-serializable.
+ */
+export class RedisCacheStore<T = unknown> implements CacheStore<T> {
+  constructor(
+    private readonly client: RespClient,
+    private readonly prefix = 'form-watcher:cache:'
+  ) {}
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const raw = await this.client.command('GET', this.prefix + key);
+    return typeof raw === 'string' ? (JSON.parse(raw) as CacheEntry<T>) : undefined;
+  }
+
+  async set(key: string, entry: CacheEntry<T>): Promise<void> {
+    const ttl = Math.ceil(entry.staleUntil - Date.now());
+    if (ttl <= 0) {
+      await this.delete(key);
+      return;
+    }
+
+    await this.client.command('SET', this.prefix + key, JSON.stringify(entry), 'PX', ttl);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.client.command('DEL', this.prefix + key)) === 1;
+  }
+
+  /**
+   * Deletes the keys under this store's prefix only, leaving other data on the server alone.
+   */
+  async clear(): Promise<void> {
+    let cursor = '0';
+    do {
+      const [next, keys] = (await this.client.command(
+        'SCAN',
+        cursor,
+        'MATCH',
+        `${this.prefix}*`,
+        'COUNT',
+        100
+      )) as [string, string[]];
+
+      if (keys.length) await this.client.command('DEL', ...keys);
+      cursor = next;
+    } while (cursor !== '0');
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
@@ -0,0 +1,223 @@
+import { createConnection, Socket } from 'node:net';
+
+export type RespValue = string | number | null | RespValue[];
+
+/**
+ * Error reply (`-ERR ...`) returned by the server.
+ */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface ParsedReply {
+  value: RespValue | RespError;
+  offset: number;
+}
+
+const CRLF = '\r\n';
+
+/**
+ * Encodes a command as a RESP array of bulk strings.
+ */
+function encodeCommand(args: (string | number)[]): string {
+  let encoded = `*${args.length}${CRLF}`;
+  for (const arg of args) {
+    const value = String(arg);
+    encoded += `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`;
+  }
+  return encoded;
+}
+
+/**
+ * Parses one reply starting at `offset`.
+ * @returns The reply and the offset after it, or undefined if the buffer holds only part of it.
+ */
+function parseReply(buffer: Buffer, offset: number): ParsedReply | undefined {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RespError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { value: null, offset: next };
+
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) return undefined;
+        if (item.value instanceof RespError) throw item.value;
+        items.push(item.value);
+        cursor = item.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    default:
+      throw new RespError(`Unexpected reply type '${type}'`);
+  }
+}
+
+/**
+ * Minimal client for servers speaking the Redis protocol (RESP2), enough for simple
+ * key/value commands. Connects lazily, pipelines commands over one socket and
+ * reconnects on the next command after the connection dropped.
+ * Supports `redis://[[user]:password@]host[:port][/db]` URLs; TLS is not supported.
+ */
+export class RespClient {
+  private socket: Socket | null = null;
+  private connecting: Promise<Socket> | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly pending: PendingReply[] = [];
+
+  constructor(
+    private readonly url: string,
+    private readonly timeoutMs = 5000
+  ) {}
+
+  async command(...args: (string | number)[]): Promise<RespValue> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket ?? (await this.connecting?.catch(() => null));
+    if (!socket) return;
+
+    await this.send(socket, ['QUIT']).catch(() => undefined);
+    socket.destroy();
+    this.socket = null;
+  }
+
+  private connect(): Promise<Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+
+    this.connecting ??= this.open().finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  private async open(): Promise<Socket> {
+    const url = new URL(this.url);
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const connection = createConnection({
+        host: url.hostname,
+        port: Number(url.port || 6379),
+      });
+      const timer = setTimeout(() => {
+        connection.destroy();
+        reject(new Error(`Connection to ${url.host} timed out`));
+      }, this.timeoutMs);
+
+      connection.once('connect', () => {
+        clearTimeout(timer);
+        resolve(connection);
+      });
+      connection.once('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    this.buffer = Buffer.alloc(0);
+    socket.setNoDelay(true);
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('error', (error) => this.failPending(error));
+    socket.on('close', () => {
+      if (this.socket === socket) this.socket = null;
+      this.failPending(new Error('Connection closed'));
+    });
+
+    try {
+      if (url.password) {
+        const password = decodeURIComponent(url.password);
+        await this.send(
+          socket,
+          url.username ? ['AUTH', decodeURIComponent(url.username), password] : ['AUTH', password]
+        );
+      }
+
+      const database = url.pathname.slice(1);
+      if (database) await this.send(socket, ['SELECT', database]);
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this.socket = socket;
+    return socket;
+  }
+
+  private send(socket: Socket, args: (string | number)[]): Promise<RespValue> {
+    return new Promise<RespValue>((resolve, reject) => {
+      const reply: PendingReply = {
+        resolve,
+        reject,
+        // Replies are matched by order, so a lost reply leaves the connection unusable
+        timer: setTimeout(() => {
+          socket.destroy(new Error(`Command ${args[0]} timed out`));
+        }, this.timeoutMs),
+      };
+
+      this.pending.push(reply);
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let offset = 0;
+    try {
+      for (;;) {
+        const reply = parseReply(this.buffer, offset);
+        if (!reply) break;
+
+        offset = reply.offset;
+        const pending = this.pending.shift();
+        if (!pending) continue;
+
+        clearTimeout(pending.timer);
+        if (reply.value instanceof RespError) pending.reject(reply.value);
+        else pending.resolve(reply.value);
+      }
+    } catch (error) {
+      this.socket?.destroy(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private failPending(error: Error): void {
+    for (const pending of this.pending.splice(0)) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { timingSafeEqual } from 'node:crypto';
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import { AuthError } from '@src/core/custom.errors';
+
+function tokensMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Requires `Authorization: Bearer <token>` on every request.
+ */
+export function bearerAuth(token: string): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const [scheme, received] = (req.headers.authorization ?? '').split(' ');
+    if (scheme !== 'Bearer' || !received || !tokensMatch(token, received)) {
+      return next(new AuthError('Missing or invalid bearer token'));
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,78 @@
+import { NextFunction, Request, RequestParamHandler, Response } from 'express';
+import { z } from 'zod/v4';
+
+import { AppError, NotFoundError, ValidationError } from '@src/core/custom.errors';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+
+/**
+ * Converts anything thrown by a route into an `AppError`. Zod failures become
+ * `ValidationError`s listing every issue; unknown errors become a generic 500.
+ */
+function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+
+  if (error instanceof z.ZodError) {
+    const issues = error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    return new ValidationError('Invalid request', issues[0]?.path, { issues });
+  }
+
+  // Malformed JSON bodies are reported by express.json() with a 400 status
+  if (error instanceof SyntaxError && 'status' in error && error.status === 400) {
+    return new ValidationError('Malformed JSON body', 'body');
+  }
+
+  return new AppError('Internal server error', 'INTERNAL_SERVER_ERROR', 500);
+}
+
+/**
+ * Rejects route ids that are not UUIDs with a 404 before they reach Postgres,
+ * which would otherwise fail the query with a 500.
+ */
+export function uuidParam(resource: string): RequestParamHandler {
+  return (_req, _res, next, id: string) => {
+    next(z.uuid().safeParse(id).success ? undefined : new NotFoundError(resource, id));
+  };
+}
+
+/**
+ * Responds to unmatched routes with a 404 in the same shape as other errors.
+ */
+export function notFoundHandler(req: Request, _res: Response, next: NextFunction): void {
+  next(new NotFoundError('Route', `${req.method} ${req.path}`));
+}
+
+/**
+ * Maps errors to `{ error: { code, message, details } }` using `AppError.statusCode` and `code`.
+ */
+export function errorHandler(
+  error: unknown,
+  req: Request,
+  res: Response,
+  // Express recognizes error handlers by their four parameters
+  _next: NextFunction
+): void {
+  const appError = toAppError(error);
+
+  if (appError.statusCode >= 500) {
+    ErrorLogger.logError('Admin API request failed', error, {
+      method: req.method,
+      path: req.path,
+    });
+  }
+
+  const retryAfter = appError.details?.['retry-after'];
+  if (typeof retryAfter === 'string') {
+    res.setHeader('Retry-After', retryAfter);
+  }
+
+  res.status(appError.statusCode).json({
+    error: {
+      code: appError.code,
+      message: appError.message,
+      ...(appError.statusCode < 500 && appError.details && { details: appError.details }),
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { NextFunction, Request, Response } from 'express';
+
+import { METRICS } from '@src/shared/utils/metrics.catalog.util';
+
+/**
+ * Counts requests and observes their duration once the response is finished. Paths are
+ * reported as route patterns to keep label cardinality bounded.
+ */
+export function httpMetrics(req: Request, res: Response, next: NextFunction): void {
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const routePath: unknown = req.route?.path;
+    const path = typeof routePath === 'string' ? `${req.baseUrl}${routePath}` : 'unmatched';
+
+    METRICS.httpRequests.inc({ method: req.method, path, status: String(res.statusCode) });
+    METRICS.httpRequestDuration.observe(
+      { method: req.method, path },
+      Number(process.hrtime.bigint() - start) / 1e9
+    );
+  });
+
+  next();
+}
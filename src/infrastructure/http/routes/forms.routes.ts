@@ -0,0 +1,99 @@
+import { Request, Response, Router } from 'express';
+
+import { NotFoundError } from '@src/core/custom.errors';
+import {
+  FormHistoryRepository,
+  FormRepository,
+} from '@src/infrastructure/persistence/repositories';
+import { redactFormNotifiers } from '@src/shared/utils/notifier.redactor.util';
+
+import { uuidParam } from '../middlewares/error.middleware';
+import { createFormSchema, historyQuerySchema, updateFormSchema } from '../schemas/form.schema';
+
+export interface FormsRouterDeps {
+  formRepository: FormRepository;
+  historyRepository: FormHistoryRepository;
+
+  /**
+   * Called after any write so the scheduler picks up the change without waiting
+   * for its next refresh.
+   */
+  onChange?: () => void;
+}
+
+/**
+ * `/forms` routes: CRUD, enable/disable and check history.
+ */
+export function createFormsRouter(deps: FormsRouterDeps): Router {
+  const { formRepository, historyRepository, onChange } = deps;
+  const router = Router();
+  router.param('id', uuidParam('Form'));
+
+  const findFormOrThrow = async (id: string) => {
+    const form = await formRepository.findById(id);
+    if (!form) throw new NotFoundError('Form', id);
+    return form;
+  };
+
+  const setEnabled = (enabled: boolean) => async (req: Request<{ id: string }>, res: Response) => {
+    const form = await formRepository.update(req.params.id, { enabled });
+    if (!form) throw new NotFoundError('Form', req.params.id);
+
+    onChange?.();
+    res.json(form);
+  };
+
+  router.get('/', async (_req, res) => {
+    res.json(await formRepository.findAll());
+  });
+
+  router.post('/', async (req, res) => {
+    const input = createFormSchema.parse(req.body);
+    const form = await formRepository.create(input);
+
+    onChange?.();
+    res.status(201).json(form);
+  });
+
+  router.get('/:id', async (req, res) => {
+    res.json(redactFormNotifiers(await findFormOrThrow(req.params.id)));
+  });
+
+  router.patch('/:id', async (req, res) => {
+    const input = updateFormSchema.parse(req.body);
+    const existing = await findFormOrThrow(req.params.id);
+
+    // Date bounds are validated together, so check the merged range as well
+    updateFormSchema.parse({
+      startDate: input.startDate ?? existing.startDate,
+      endDate: input.endDate ?? existing.endDate,
+    });
+
+    const form = await formRepository.update(req.params.id, input);
+    if (!form) throw new NotFoundError('Form', req.params.id);
+
+    onChange?.();
+    res.json(form);
+  });
+
+  router.delete('/:id', async (req, res) => {
+    if (!(await formRepository.delete(req.params.id))) {
+      throw new NotFoundError('Form', req.params.id);
+    }
+
+    onChange?.();
+    res.status(204).end();
+  });
+
+  router.post('/:id/enable', setEnabled(true));
+  router.post('/:id/disable', setEnabled(false));
+
+  router.get('/:id/history', async (req, res) => {
+    const { limit } = historyQuerySchema.parse(req.query);
+    await findFormOrThrow(req.params.id);
+
+    res.json(await historyRepository.findByFormId(req.params.id, limit));
+  });
+
+  return router;
+}
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+
+import { HealthService } from '@src/core/services/health.service';
+import { metrics } from '@src/shared/utils/metrics.util';
+
+/**
+ * Probe and scrape endpoints. They are mounted outside `/api` and need no token.
+ */
+export function createHealthRouter(healthService: HealthService): Router {
+  const router = Router();
+
+  router.get('/healthz', (_req, res) => {
+    const health = healthService.getHealth();
+    res.status(health.status === 'ok' ? 200 : 503).json(health);
+  });
+
+  router.get('/readyz', async (_req, res) => {
+    const readiness = await healthService.getReadiness();
+    res.status(readiness.status === 'ok' ? 200 : 503).json(readiness);
+  });
+
+  router.get('/metrics', (_req, res) => {
+    res.type('text/plain; version=0.0.4; charset=utf-8').send(metrics.generateMetrics());
+  });
+
+  return router;
+}
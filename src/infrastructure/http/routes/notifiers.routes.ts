@@ -0,0 +1,103 @@
+import { Request, Router } from 'express';
+
+import { NotFoundError } from '@src/core/custom.errors';
+import { FormRepository, NotifierRepository } from '@src/infrastructure/persistence/repositories';
+import { Notifier } from '@src/shared/types/types';
+import {
+  REDACTED,
+  redactNotifier,
+  restoreRedacted,
+} from '@src/shared/utils/notifier.redactor.util';
+
+import { uuidParam } from '../middlewares/error.middleware';
+import { createNotifierSchema, updateNotifierSchema } from '../schemas/notifier.schema';
+
+type FormRequest = Request<{ formId: string }>;
+type NotifierRequest = Request<{ formId: string; notifierId: string }>;
+
+export interface NotifiersRouterDeps {
+  formRepository: FormRepository;
+  notifierRepository: NotifierRepository;
+  onChange?: () => void;
+}
+
+/**
+ * `/forms/:formId/notifiers` routes. Notifiers are always addressed through their
+ * form, so a notifier id belonging to another form yields a 404.
+ */
+export function createNotifiersRouter(deps: NotifiersRouterDeps): Router {
+  const { formRepository, notifierRepository, onChange } = deps;
+  const router = Router({ mergeParams: true });
+  router.param('notifierId', uuidParam('Notifier'));
+
+  const assertFormExists = async (formId: string): Promise<void> => {
+    if (!(await formRepository.findById(formId))) throw new NotFoundError('Form', formId);
+  };
+
+  const findNotifierOrThrow = async (formId: string, notifierId: string): Promise<Notifier> => {
+    const notifier = await notifierRepository.findById(notifierId);
+    if (!notifier || notifier.formId !== formId) throw new NotFoundError('Notifier', notifierId);
+    return notifier;
+  };
+
+  router.get('/', async (req: FormRequest, res) => {
+    await assertFormExists(req.params.formId);
+    const notifiers = await notifierRepository.findByFormId(req.params.formId);
+    res.json(notifiers.map(redactNotifier));
+  });
+
+  router.post('/', async (req: FormRequest, res) => {
+    const input = createNotifierSchema.parse(req.body);
+    await assertFormExists(req.params.formId);
+
+    const notifier = await notifierRepository.create(req.params.formId, input);
+
+    onChange?.();
+    res.status(201).json(redactNotifier(notifier));
+  });
+
+  router.get('/:notifierId', async (req: NotifierRequest, res) => {
+    res.json(redactNotifier(await findNotifierOrThrow(req.params.formId, req.params.notifierId)));
+  });
+
+  router.patch('/:notifierId', async (req: NotifierRequest, res) => {
+    // A webhook URL sent back as the placeholder is left unchanged
+    const input = updateNotifierSchema.parse(
+      req.body?.webhookUrl === REDACTED ? { ...req.body, webhookUrl: undefined } : req.body
+    );
+    const existing = await findNotifierOrThrow(req.params.formId, req.params.notifierId);
+
+    // Changing the strategy or clearing addresses must still leave a deliverable notifier
+    createNotifierSchema.parse({
+      strategy: input.strategy ?? existing.strategy,
+      emailTo: input.emailTo === undefined ? existing.emailTo : input.emailTo,
+      webhookUrl: input.webhookUrl === undefined ? existing.webhookUrl : input.webhookUrl,
+      chatId: input.chatId === undefined ? existing.chatId : input.chatId,
+      notificationEmail:
+        input.notificationEmail === undefined
+          ? existing.notificationEmail
+          : input.notificationEmail,
+    });
+
+    const notifier = await notifierRepository.update(existing.id, {
+      ...input,
+      ...(input.customVars && {
+        customVars: restoreRedacted(input.customVars, existing.customVars ?? {}),
+      }),
+    });
+    if (!notifier) throw new NotFoundError('Notifier', existing.id);
+
+    onChange?.();
+    res.json(redactNotifier(notifier));
+  });
+
+  router.delete('/:notifierId', async (req: NotifierRequest, res) => {
+    const existing = await findNotifierOrThrow(req.params.formId, req.params.notifierId);
+    await notifierRepository.delete(existing.id);
+
+    onChange?.();
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,82 @@
+import { CronExpressionParser } from 'cron-parser';
+import { IANAZone } from 'luxon';
+import { z } from 'zod/v4';
+
+import { urlSchema } from '@src/core/config/validator.config';
+import { WatcherType } from '@src/shared/enums/watcher-type.enum';
+import { FormInput } from '@src/shared/types/types';
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, 'Expected a time in HH:mm or HH:mm:ss format');
+
+const weekdaySchema = z.string().refine((day) => {
+  const normalized = day.trim().toLowerCase();
+  return WEEKDAYS.some((weekday) => weekday === normalized || weekday.slice(0, 3) === normalized);
+}, 'Expected a weekday name such as "Monday" or "mon"');
+
+const cronScheduleSchema = z.string().refine((expression) => {
+  try {
+    CronExpressionParser.parse(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid cron expression');
+
+const timezoneSchema = z
+  .string()
+  .refine((zone) => IANAZone.isValidZone(zone), 'Invalid IANA timezone');
+
+/**
+ * One validator per writable `Form` field. The `satisfies` clause keeps this list in
+ * sync with `FormInput`: adding or removing a field there fails compilation here.
+ */
+const formShape = {
+  name: z.string().trim().min(1, 'Name is required'),
+  url: urlSchema,
+  watcherType: z.enum(WatcherType),
+  watcherConfig: z.record(z.string(), z.unknown()),
+  intervalSeconds: z.number().int().positive(),
+  cronSchedule: cronScheduleSchema.nullable(),
+  startDate: z.iso.date(),
+  endDate: z.iso.date(),
+  weekdays: z.array(weekdaySchema),
+  activeFrom: timeOfDaySchema,
+  activeTo: timeOfDaySchema,
+  timezone: timezoneSchema.nullable(),
+  enabled: z.boolean(),
+  priority: z.number().int().min(0),
+} satisfies Record<keyof FormInput, z.ZodType>;
+
+const checkDateRange = (form: { startDate?: string; endDate?: string }) =>
+  !form.startDate || !form.endDate || form.startDate <= form.endDate;
+
+const dateRangeIssue = { message: 'endDate must not be before startDate', path: ['endDate'] };
+
+export const createFormSchema = z
+  .object({
+    ...formShape,
+    watcherConfig: formShape.watcherConfig.default({}),
+    cronSchedule: formShape.cronSchedule.optional(),
+    weekdays: formShape.weekdays.default([]),
+    activeFrom: formShape.activeFrom.default('00:00'),
+    activeTo: formShape.activeTo.default('23:59:59'),
+    timezone: formShape.timezone.optional(),
+    enabled: formShape.enabled.default(true),
+    priority: formShape.priority.default(2),
+  })
+  .strict()
+  .refine(checkDateRange, dateRangeIssue);
+
+export const updateFormSchema = z
+  .object(formShape)
+  .partial()
+  .strict()
+  .refine(checkDateRange, dateRangeIssue);
+
+export const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
@@ -0,0 +1,66 @@
+import { z } from 'zod/v4';
+
+import { urlSchema } from '@src/core/config/validator.config';
+import { Notifier, NotifierInput } from '@src/shared/types/types';
+
+export const NOTIFIER_STRATEGIES = [
+  'email',
+  'discord',
+  'slack',
+  'webhook',
+  'telegram',
+  'teams',
+  'google-chat',
+  'pagerduty',
+  'ntfy',
+  'pushover',
+] as const satisfies readonly Notifier['strategy'][];
+
+/**
+ * One validator per writable `Notifier` field, kept in sync with `NotifierInput`.
+ */
+const notifierShape = {
+  strategy: z.enum(NOTIFIER_STRATEGIES),
+  emailTo: z.array(z.email()).nullable(),
+  webhookUrl: urlSchema.nullable(),
+  notificationEmail: z.email().nullable(),
+  chatId: z.string().trim().min(1).nullable(),
+  customVars: z.record(z.string(), z.unknown()),
+  enabled: z.boolean(),
+} satisfies Record<keyof NotifierInput, z.ZodType>;
+
+const hasDestination = (notifier: Partial<NotifierInput>) =>
+  notifier.strategy !== 'email' || Boolean(notifier.emailTo?.length || notifier.notificationEmail);
+
+// Chat strategies fall back to the env webhook; the generic webhook has none
+const hasChatId = (notifier: Partial<NotifierInput>) =>
+  notifier.strategy !== 'telegram' || Boolean(notifier.chatId);
+
+const hasWebhookUrl = (notifier: Partial<NotifierInput>) =>
+  notifier.strategy !== 'webhook' || Boolean(notifier.webhookUrl);
+
+export const createNotifierSchema = z
+  .object({
+    ...notifierShape,
+    emailTo: notifierShape.emailTo.optional(),
+    webhookUrl: notifierShape.webhookUrl.optional(),
+    notificationEmail: notifierShape.notificationEmail.optional(),
+    chatId: notifierShape.chatId.optional(),
+    customVars: notifierShape.customVars.default({}),
+    enabled: notifierShape.enabled.default(true),
+  })
+  .strict()
+  .refine(hasDestination, {
+    message: 'Email notifiers need emailTo or notificationEmail',
+    path: ['emailTo'],
+  })
+  .refine(hasWebhookUrl, {
+    message: 'Webhook notifiers need a webhookUrl',
+    path: ['webhookUrl'],
+  })
+  .refine(hasChatId, {
+    message: 'Telegram notifiers need a chatId',
+    path: ['chatId'],
+  });
+
+export const updateNotifierSchema = z.object(notifierShape).partial().strict();
@@ -0,0 +1,103 @@
+import { Server } from 'node:http';
+
+import express, { Express } from 'express';
+
+import { HealthService } from '@src/core/services/health.service';
+import {
+  FormHistoryRepository,
+  FormRepository,
+  NotifierRepository,
+} from '@src/infrastructure/persistence/repositories';
+import { cors } from '@src/shared/utils/cors.util';
+import { log } from '@src/shared/utils/logger.util';
+
+import { bearerAuth } from './middlewares/auth.middleware';
+import { errorHandler, notFoundHandler, uuidParam } from './middlewares/error.middleware';
+import { httpMetrics } from './middlewares/metrics.middleware';
+import { createFormsRouter } from './routes/forms.routes';
+import { createHealthRouter } from './routes/health.routes';
+import { createNotifiersRouter } from './routes/notifiers.routes';
+
+export interface HttpServerOptions {
+  formRepository: FormRepository;
+  notifierRepository: NotifierRepository;
+  historyRepository: FormHistoryRepository;
+  healthService: HealthService;
+
+  /**
+   * Bearer token required on `/api` routes; the API is not mounted when unset
+   */
+  adminToken?: string;
+
+  /**
+   * Called after the API changed a form or notifier
+   */
+  onChange?: () => void;
+}
+
+/**
+ * Express server exposing the probes, `/metrics` and the admin API under `/api`.
+ */
+export class HttpServer {
+  readonly app: Express;
+  private server: Server | null = null;
+
+  constructor(options: HttpServerOptions) {
+    const { formRepository, notifierRepository, historyRepository, onChange } = options;
+
+    this.app = express();
+    this.app.disable('x-powered-by');
+    this.app.use(httpMetrics);
+    this.app.use(cors());
+    this.app.use(express.json({ limit: '100kb' }));
+
+    this.app.use(createHealthRouter(options.healthService));
+
+    // The admin API can point the fetcher and notifiers at any URL, so it is never served without a token
+    if (options.adminToken) {
+      const api = express.Router();
+      api.use(bearerAuth(options.adminToken));
+      api.param('formId', uuidParam('Form'));
+      api.use('/forms', createFormsRouter({ formRepository, historyRepository, onChange }));
+      api.use(
+        '/forms/:formId/notifiers',
+        createNotifiersRouter({ formRepository, notifierRepository, onChange })
+      );
+      this.app.use('/api', api);
+    } else {
+      log.warn('ADMIN_API_TOKEN is not set, the admin API under /api is disabled');
+    }
+
+    this.app.use(notFoundHandler);
+    this.app.use(errorHandler);
+  }
+
+  /**
+   * Starts listening and resolves once the port is bound.
+   */
+  start(port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(port, (error?: Error) => {
+        if (error) return reject(error);
+
+        this.server = server;
+        log.info(`HTTP server listening on port ${port}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stops accepting connections and waits for in-flight requests to finish.
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return Promise.resolve();
+    this.server = null;
+
+    return new Promise((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeIdleConnections();
+    });
+  }
+}
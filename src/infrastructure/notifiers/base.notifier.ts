@@ -1,5 +1,5 @@
-import { NotificationPayload } from '@src/shared/types/notification.types';
-import { Form } from '@src/shared/types/types';
+import { DeliveryReport, NotificationPayload } from '@src/shared/types/notification.types';
+import { Form, Notifier } from '@src/shared/types/types';
 import { log } from '@src/shared/utils/logger.util';
 
 import { NotifierStrategy } from './strategy.notifier';
@@ -7,16 +7,22 @@ import { NotifierStrategy } from './strategy.notifier';
 export abstract class BaseNotifier implements NotifierStrategy {
   protected abstract readonly name: string;
 
-  async send(form: Form, payload: NotificationPayload): Promise<void> {
+  async send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<DeliveryReport | void> {
     const startTime = Date.now();
 
     try {
-      await this._send(form, payload);
+      const report = await this._send(form, payload, notifier);
       log.info(`Notification sent via ${this.name} for form ${form.id}`, {
         formId: form.id,
         notifier: this.name,
+        notifierId: notifier?.id,
         durationMs: Date.now() - startTime,
       });
+      return report;
     } catch (error) {
       log.error(
         `Failed to send ${this.name} notification for form ${form.id}`,
@@ -24,6 +30,7 @@ export abstract class BaseNotifier implements NotifierStrategy {
         {
           formId: form.id,
           notifier: this.name,
+          notifierId: notifier?.id,
           durationMs: Date.now() - startTime,
         }
       );
@@ -31,5 +38,17 @@ export abstract class BaseNotifier implements NotifierStrategy {
     }
   }
 
-  protected abstract _send(form: Form, payload: NotificationPayload): Promise<void>;
+  /**
+   * Reads a non-empty string from the notifier's `customVars`.
+   */
+  protected customVar(notifier: Notifier | undefined, name: string): string | undefined {
+    const value = notifier?.customVars?.[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  protected abstract _send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<DeliveryReport | void>;
 }
@@ -1,12 +1,15 @@
+import { ConfigurationError, NotFoundError } from '@src/core/custom.errors';
 import { NotificationPayload } from '@src/shared/types/notification.types';
-import { Form } from '@src/shared/types/types';
-import { ErrorLogger } from '@src/shared/utils/error.logger.util';
-import { log } from '@src/shared/utils/logger.util';
+import { Form, Notifier } from '@src/shared/types/types';
+import { renderChannelTemplate } from '@src/shared/utils/template.util';
 
 import { HttpNotifier } from './http.notifier';
 
 export interface DiscordConfig {
-  webhookUrl: string;
+  /**
+   * Default webhook for notifiers without their own `webhookUrl`
+   */
+  webhookUrl?: string;
   username?: string;
   avatarUrl?: string;
 }
@@ -14,6 +17,11 @@ export interface DiscordConfig {
 const DISCORD_DEFAULT_AVATAR_URL = 'https://i.imgur.com/wSTFkRM.png';
 const DISCORD_DEFAULT_USERNAME = 'Form Watcher';
 
+/**
+ * Posts to the notifier's own `webhookUrl`, or the default webhook when it has none.
+ * The message comes from the `discord.json` channel template; `customVars.username`
+ * and `customVars.avatarUrl` override the bot identity.
+ */
 export class DiscordNotifier extends HttpNotifier {
   protected readonly name = 'DiscordNotifier';
   private readonly config: DiscordConfig;
@@ -25,53 +33,53 @@ export class DiscordNotifier extends HttpNotifier {
       username: config.username || DISCORD_DEFAULT_USERNAME,
       avatarUrl: config.avatarUrl || DISCORD_DEFAULT_AVATAR_URL,
     };
-
-    if (!this.config.webhookUrl) {
-      log.warn('Discord webhook URL not configured');
-    }
   }
 
-  protected async _send(form: Form, payload: NotificationPayload): Promise<void> {
-    if (!this.config.webhookUrl) {
-      throw new Error('Discord webhook URL not configured');
+  protected async _send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<void> {
+    const webhookUrl = notifier?.webhookUrl || this.config.webhookUrl;
+    if (!webhookUrl) {
+      throw new ConfigurationError('Discord webhook URL not configured', {
+        notifierId: notifier?.id,
+      });
     }
 
-    const embed = {
-      title: `Form Update: ${form.name}`,
-      description: payload.data.changeSummary || 'No changes detected',
-      url: form.url,
-      color: 0x5865f2, // Discord blurple
-      timestamp: new Date().toISOString(),
-      footer: {
-        text: 'Form Watcher',
-        icon_url: 'https://i.imgur.com/wSTFkRM.png', // Replace with your icon URL
-      },
-      fields: [
-        {
-          name: 'Status',
-          value: payload.data.status ? '✅ Open' : '❌ Closed',
-          inline: true,
-        },
-        {
-          name: 'Form',
-          value: `[${form.name}](${form.url})`,
-          inline: true,
-        },
-      ],
-    };
-
-    const discordPayload = {
-      username: 'Form Watcher',
-      avatar_url: 'https://i.imgur.com/wSTFkRM.png', // Replace with your avatar URL
-      embeds: [embed],
-    };
+    const message = this.renderMessage(form, payload, notifier);
 
     const finalPayload = {
-      ...discordPayload,
-      username: this.config.username,
-      avatar_url: this.config.avatarUrl,
+      ...message,
+      username: this.customVar(notifier, 'username') ?? this.config.username,
+      avatar_url: this.customVar(notifier, 'avatarUrl') ?? this.config.avatarUrl,
     };
 
-    await this.sendHttpRequest(this.config.webhookUrl, finalPayload, form);
+    await this.sendHttpRequest(webhookUrl, finalPayload, form);
+  }
+
+  /**
+   * Renders the `discord.json` channel template into the webhook message body
+   * (`content`, `embeds`, ...).
+   */
+  private renderMessage(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Record<string, unknown> {
+    const rendered = renderChannelTemplate('discord.json', form, payload, notifier);
+    if (rendered === undefined) {
+      throw new NotFoundError('Template', `${payload.template}.discord.json`);
+    }
+
+    try {
+      return JSON.parse(rendered) as Record<string, unknown>;
+    } catch (error) {
+      throw new ConfigurationError('Discord template did not render valid JSON', {
+        notifierId: notifier?.id,
+        template: payload.template,
+        cause: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 }
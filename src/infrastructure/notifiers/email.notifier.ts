@@ -1,8 +1,13 @@
 import * as Nodemailer from 'nodemailer';
+import SMTPTransport from 'nodemailer/lib/smtp-transport';
 
-import { ValidationError } from '@src/core/custom.errors';
-import { NotificationPayload } from '@src/shared/types/notification.types';
-import { Form } from '@src/shared/types/types';
+import { DeliveryError, ValidationError } from '@src/core/custom.errors';
+import {
+  DeliveryReport,
+  NotificationPayload,
+  RecipientFailure,
+} from '@src/shared/types/notification.types';
+import { Form, Notifier } from '@src/shared/types/types';
 import { ErrorLogger } from '@src/shared/utils/error.logger.util';
 import { log } from '@src/shared/utils/logger.util';
 import { buildEmailContent } from '@src/shared/utils/template.util';
@@ -18,10 +23,49 @@ export interface EmailConfig {
   secure?: boolean;
 }
 
+export interface SmtpConnectionState {
+  verified: boolean;
+  checkedAt?: string;
+  error?: string;
+}
+
+// SMTP transport results also carry the connection's per-recipient errors
+type SentMessageInfo = SMTPTransport.SentMessageInfo & {
+  rejectedErrors?: { recipient?: string; response?: string }[];
+};
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Reads an address list from customVars, given as an array or a comma separated string.
+ */
+function readAddresses(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return entries.map(readString).filter((address): address is string => address !== undefined);
+}
+
+/**
+ * All `emailTo` addresses plus `notificationEmail`, without duplicates.
+ */
+function recipientsOf(notifier: Notifier): string[] {
+  const addresses = [...(notifier.emailTo ?? []), notifier.notificationEmail]
+    .map(readString)
+    .filter((address): address is string => address !== undefined);
+  return Array.from(new Set(addresses));
+}
+
+/**
+ * Sends notifications over SMTP. Per notifier, `customVars` may set `cc` and `bcc`
+ * (array or comma separated), `replyTo` and `fromName`.
+ */
 export class EmailNotifier extends BaseNotifier {
   protected readonly name = 'EmailNotifier';
-  private transporter: Nodemailer.Transporter | null = null;
+  private transporter: Nodemailer.Transporter<SMTPTransport.SentMessageInfo> | null = null;
   private config: EmailConfig;
+  private connectionState: SmtpConnectionState = { verified: false };
+  private verifying: Promise<void> | null = null;
 
   constructor(config: EmailConfig) {
     super();
@@ -30,7 +74,44 @@ export class EmailNotifier extends BaseNotifier {
       from: config.from || config.user,
       secure: config.secure ?? config.port === 465,
     };
-    this.initializeTransporter();
+    // A failed verification is logged and reported through getConnectionState()
+    this.verifyConnection().catch(() => undefined);
+  }
+
+  /**
+   * Result of the last SMTP verification or delivery attempt.
+   */
+  getConnectionState(): SmtpConnectionState {
+    return { ...this.connectionState };
+  }
+
+  /**
+   * Recreates the transporter and verifies the SMTP connection. Concurrent calls
+   * share the same attempt.
+   */
+  verifyConnection(): Promise<void> {
+    this.verifying ??= this.initializeTransporter().finally(() => {
+      this.verifying = null;
+    });
+    return this.verifying;
+  }
+
+  /**
+   * Closes pooled SMTP connections.
+   */
+  close(): void {
+    this.transporter?.close();
+    this.transporter = null;
+  }
+
+  private setConnectionState(error?: unknown): void {
+    this.connectionState = {
+      verified: error === undefined,
+      checkedAt: new Date().toISOString(),
+      ...(error !== undefined && {
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    };
   }
 
   private async initializeTransporter() {
@@ -49,8 +130,10 @@ export class EmailNotifier extends BaseNotifier {
     // Verify connection configuration
     try {
       await this.transporter.verify();
+      this.setConnectionState();
       log.info('SMTP connection verified');
     } catch (error) {
+      this.setConnectionState(error);
       log.error(
         'SMTP connection failed',
         error instanceof Error ? error : new Error(String(error))
@@ -59,18 +142,21 @@ export class EmailNotifier extends BaseNotifier {
     }
   }
 
-  protected async _send(form: Form, payload: NotificationPayload): Promise<void> {
+  protected async _send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<DeliveryReport | void> {
     if (!this.transporter) {
-      await this.initializeTransporter();
+      await this.verifyConnection();
     }
 
-    // Get the first notifier with email configuration
-    const emailNotifier = form.notifiers?.find(
-      (n) => n.strategy === 'email' && n.enabled !== false
-    );
-    const recipient = emailNotifier?.emailTo?.[0];
+    // Use the notifier being dispatched, falling back to the first email notifier on the form
+    const emailNotifier =
+      notifier ?? form.notifiers?.find((n) => n.strategy === 'email' && n.enabled !== false);
+    const recipients = emailNotifier ? recipientsOf(emailNotifier) : [];
 
-    if (!recipient) {
+    if (recipients.length === 0) {
       ErrorLogger.logError(
         'No recipient email address configured',
         new Error('No recipient email address configured')
@@ -79,16 +165,25 @@ export class EmailNotifier extends BaseNotifier {
     }
 
     const { subject, html } = buildEmailContent(payload);
+    const fromName = this.customVar(emailNotifier, 'fromName') ?? 'Form Watcher';
+    const cc = readAddresses(emailNotifier?.customVars?.cc);
+    const bcc = readAddresses(emailNotifier?.customVars?.bcc);
+    const replyTo = this.customVar(emailNotifier, 'replyTo');
 
-    const mailOptions = {
-      from: `"Form Watcher" <${this.config.from || this.config.user}>`,
-      to: recipient,
+    const mailOptions: Nodemailer.SendMailOptions = {
+      from: { name: fromName, address: this.config.from || this.config.user },
+      to: recipients,
+      ...(cc.length && { cc }),
+      ...(bcc.length && { bcc }),
+      ...(replyTo && { replyTo }),
       subject,
       html,
     };
 
+    let info: SentMessageInfo | undefined;
     try {
-      const info = await this.transporter?.sendMail(mailOptions);
+      info = await this.transporter?.sendMail(mailOptions);
+      this.setConnectionState();
       log.debug(`Email sent: ${info?.messageId}`, {
         messageId: info?.messageId,
         response: info?.response,
@@ -99,5 +194,30 @@ export class EmailNotifier extends BaseNotifier {
       this.transporter = null;
       throw error;
     }
+
+    return this.checkRejected(form, info);
+  }
+
+  /**
+   * Turns the recipients refused by the server into a delivery report, or an error
+   * when nobody accepted the message.
+   */
+  private checkRejected(form: Form, info: SentMessageInfo | undefined): DeliveryReport | void {
+    const rejected = (info?.rejected ?? []).map((entry): RecipientFailure => {
+      const recipient = typeof entry === 'string' ? entry : entry.address;
+      const reason = info?.rejectedErrors?.find((error) => error.recipient === recipient)?.response;
+      return reason ? { recipient, reason } : { recipient };
+    });
+    if (rejected.length === 0) return;
+
+    if (!info?.accepted.length) {
+      throw new DeliveryError('Email was rejected for every recipient', { rejected });
+    }
+
+    log.warn(`Email for form ${form.id} was rejected for ${rejected.length} recipient(s)`, {
+      formId: form.id,
+      rejected,
+    });
+    return { rejected };
   }
 }
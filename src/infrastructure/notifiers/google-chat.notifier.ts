@@ -0,0 +1,81 @@
+import { ConfigurationError } from '@src/core/custom.errors';
+import { NotificationPayload } from '@src/shared/types/notification.types';
+import { Form, Notifier } from '@src/shared/types/types';
+import { buildSubject, formatStatus, renderChannelTemplate } from '@src/shared/utils/template.util';
+
+import { HttpNotifier } from './http.notifier';
+
+export interface GoogleChatConfig {
+  /**
+   * Default space webhook for notifiers without their own `webhookUrl`
+   */
+  webhookUrl?: string;
+}
+
+// Chat text widgets interpret a small HTML subset
+function escapeChatText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Posts a cardsV2 message to a Google Chat space webhook, using the notifier's own
+ * `webhookUrl` or the default one. A `google-chat` channel template, if any, replaces
+ * the summary text.
+ */
+export class GoogleChatNotifier extends HttpNotifier {
+  protected readonly name = 'GoogleChatNotifier';
+
+  constructor(private readonly config: GoogleChatConfig = {}) {
+    super();
+  }
+
+  protected async _send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<void> {
+    const webhookUrl = notifier?.webhookUrl || this.config.webhookUrl;
+    if (!webhookUrl) {
+      throw new ConfigurationError('Google Chat webhook URL not configured', {
+        notifierId: notifier?.id,
+      });
+    }
+
+    const card = {
+      header: { title: buildSubject(payload), subtitle: form.name },
+      sections: [
+        {
+          widgets: [
+            {
+              textParagraph: {
+                text:
+                  renderChannelTemplate('google-chat', form, payload, notifier) ??
+                  escapeChatText(payload.data.changeSummary || 'No changes detected'),
+              },
+            },
+            {
+              decoratedText: { topLabel: 'Status', text: formatStatus(payload.data.status) },
+            },
+            {
+              decoratedText: {
+                topLabel: 'Form',
+                text: `<a href="${escapeChatText(form.url)}">${escapeChatText(form.name)}</a>`,
+              },
+            },
+            {
+              buttonList: {
+                buttons: [{ text: 'Open form', onClick: { openLink: { url: form.url } } }],
+              },
+            },
+          ],
+        },
+      ],
+    };
+
+    await this.sendHttpRequest(
+      webhookUrl,
+      { cardsV2: [{ cardId: `form-${form.id}`, card }] },
+      form
+    );
+  }
+}
@@ -1,23 +1,29 @@
 import { Form } from '@src/shared/types/types';
 import { handleError } from '@src/shared/utils/error.handler.util';
-import { retryOperation } from '@src/shared/utils/retry.util';
 import { log } from '@src/shared/utils/logger.util';
+import { retryOperation } from '@src/shared/utils/retry.util';
 
 import { BaseNotifier } from './base.notifier';
 
 export abstract class HttpNotifier extends BaseNotifier {
+  /**
+   * POSTs a JSON payload with retries. A string payload is sent as-is, so a body that
+   * was signed is transmitted byte for byte.
+   * @param headers Extra request headers, e.g. signatures
+   */
   protected async sendHttpRequest(
     url: string,
-    payload: any,
-    form: Form
+    payload: unknown,
+    form: Form,
+    headers: Record<string, string> = {}
   ): Promise<void> {
     return handleError(
       () =>
         retryOperation(async () => {
           const response = await fetch(url, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload),
+            headers: { ...headers, 'Content-Type': 'application/json' },
+            body: typeof payload === 'string' ? payload : JSON.stringify(payload),
           });
 
           if (!response.ok) {
@@ -1,5 +1,12 @@
 export * from './base.notifier';
 export * from './discord.notifier';
 export * from './email.notifier';
+export * from './google-chat.notifier';
+export * from './ntfy.notifier';
+export * from './pagerduty.notifier';
+export * from './pushover.notifier';
 export * from './slack.notifier';
 export * from './strategy.notifier';
+export * from './teams.notifier';
+export * from './telegram.notifier';
+export * from './webhook.notifier';
@@ -0,0 +1,122 @@
+import { ConfigurationError } from '@src/core/custom.errors';
+import { NotificationPayload } from '@src/shared/types/notification.types';
+import { Form, Notifier } from '@src/shared/types/types';
+import { buildSubject } from '@src/shared/utils/template.util';
+
+import { HttpNotifier } from './http.notifier';
+
+export interface NtfyConfig {
+  /**
+   * Server used for `customVars.topic`
+   * @default 'https://ntfy.sh'
+   */
+  serverUrl?: string;
+
+  /**
+   * Access token used when the notifier has no `customVars.accessToken`
+   */
+  accessToken?: string;
+}
+
+const PRIORITY_NAMES: Record<string, number> = {
+  min: 1,
+  low: 2,
+  default: 3,
+  high: 4,
+  max: 5,
+  urgent: 5,
+};
+
+function defaultTags(payload: NotificationPayload): string[] {
+  if (payload.template === 'site-not-working') return ['rotating_light'];
+  if (payload.template === 'site-recovered') return ['white_check_mark'];
+  if (payload.data.status === 'open') return ['green_circle'];
+  if (payload.data.status === 'closed') return ['red_circle'];
+  return ['bell'];
+}
+
+/**
+ * Publishes to an ntfy topic through the JSON API. The topic is either the
+ * notifier's `webhookUrl` (a full topic URL such as `https://ntfy.example.com/forms`)
+ * or `customVars.topic` on the configured server. `customVars` may also set
+ * `priority` (1-5 or min/low/default/high/max, `high` by default), `tags` (array or
+ * comma separated emoji shortcodes) and `accessToken`. Tapping the notification
+ * opens the form.
+ */
+export class NtfyNotifier extends HttpNotifier {
+  protected readonly name = 'NtfyNotifier';
+  private readonly serverUrl: string;
+
+  constructor(private readonly config: NtfyConfig = {}) {
+    super();
+    this.serverUrl = (config.serverUrl ?? 'https://ntfy.sh').replace(/\/+$/, '');
+  }
+
+  protected async _send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<void> {
+    const { serverUrl, topic } = this.resolveTopic(notifier);
+    const accessToken = this.customVar(notifier, 'accessToken') ?? this.config.accessToken;
+
+    const message = {
+      topic,
+      title: buildSubject(payload),
+      message: payload.data.changeSummary || 'No changes detected',
+      priority: this.priority(notifier),
+      tags: this.tags(notifier) ?? defaultTags(payload),
+      click: form.url,
+    };
+
+    await this.sendHttpRequest(
+      serverUrl,
+      message,
+      form,
+      accessToken ? { Authorization: `Bearer ${accessToken}` } : {}
+    );
+  }
+
+  /**
+   * JSON messages are published to the server root with the topic in the body.
+   */
+  private resolveTopic(notifier?: Notifier): { serverUrl: string; topic: string } {
+    if (notifier?.webhookUrl) {
+      const url = new URL(notifier.webhookUrl);
+      const segments = url.pathname.split('/').filter(Boolean);
+      const topic = segments.pop();
+
+      if (topic) {
+        url.pathname = segments.join('/');
+        return { serverUrl: url.toString().replace(/\/+$/, ''), topic };
+      }
+    }
+
+    const topic = this.customVar(notifier, 'topic');
+    if (!topic) {
+      throw new ConfigurationError('ntfy topic not configured', { notifierId: notifier?.id });
+    }
+    return { serverUrl: this.serverUrl, topic };
+  }
+
+  private priority(notifier?: Notifier): number {
+    const value = notifier?.customVars?.priority;
+    const priority = typeof value === 'string' ? (PRIORITY_NAMES[value] ?? Number(value)) : value;
+    return typeof priority === 'number' &&
+      Number.isInteger(priority) &&
+      priority >= 1 &&
+      priority <= 5
+      ? priority
+      : PRIORITY_NAMES.high;
+  }
+
+  private tags(notifier?: Notifier): string[] | undefined {
+    const value = notifier?.customVars?.tags;
+    const tags = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    const valid = tags
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    return valid.length ? valid : undefined;
+  }
+}
@@ -0,0 +1,162 @@
+import { ConfigurationError } from '@src/core/custom.errors';
+import { StateStore } from '@src/infrastructure/state';
+import { NotificationPayload } from '@src/shared/types/notification.types';
+import { Form, Notifier } from '@src/shared/types/types';
+import { log } from '@src/shared/utils/logger.util';
+import { buildSubject } from '@src/shared/utils/template.util';
+
+import { HttpNotifier } from './http.notifier';
+
+export interface PagerDutyConfig {
+  /**
+   * Integration key used when the notifier has no `customVars.routingKey`
+   */
+  routingKey?: string;
+
+  /**
+   * Events API v2 endpoint, overridable to point at a local receiver
+   * @default 'https://events.pagerduty.com/v2/enqueue'
+   */
+  eventsUrl?: string;
+
+  /**
+   * Keeps the status a form had before its incident, to resolve on return
+   */
+  state: StateStore;
+}
+
+export type PagerDutySeverity = 'critical' | 'error' | 'warning' | 'info';
+type EventAction = 'trigger' | 'resolve';
+
+const SEVERITIES: readonly PagerDutySeverity[] = ['critical', 'error', 'warning', 'info'];
+
+/**
+ * Dedup keys are stable per form so PagerDuty groups repeated triggers into one
+ * incident and a resolve closes it. Status changes and reachability are tracked as
+ * separate incidents.
+ */
+export const pagerDutyDedupKey = (formId: string, kind: 'status' | 'availability'): string =>
+  `form-watcher:${formId}:${kind}`;
+
+/**
+ * Baselines are kept per notifier: each one resolves its own incident, so one notifier
+ * clearing the baseline must not affect another on the same form.
+ */
+const baselineKey = (form: Form, notifier?: Notifier) =>
+  notifier ? `pagerduty:baseline:${form.id}:${notifier.id}` : `pagerduty:baseline:${form.id}`;
+
+/**
+ * Incident-style notifier speaking the PagerDuty Events API v2.
+ * - A status transition triggers an incident, and it resolves once the form returns to
+ *   the status it had before. Content changes trigger without an automatic resolve.
+ * - `site-not-working` triggers an availability incident, `site-recovered` resolves it.
+ * `customVars` may set `routingKey` and `severity` (`error` by default).
+ */
+export class PagerDutyNotifier extends HttpNotifier {
+  protected readonly name = 'PagerDutyNotifier';
+  private readonly eventsUrl: string;
+
+  constructor(private readonly config: PagerDutyConfig) {
+    super();
+    this.eventsUrl = config.eventsUrl ?? 'https://events.pagerduty.com/v2/enqueue';
+  }
+
+  protected async _send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<void> {
+    const routingKey = this.customVar(notifier, 'routingKey') ?? this.config.routingKey;
+    if (!routingKey) {
+      throw new ConfigurationError('PagerDuty routing key not configured', {
+        notifierId: notifier?.id,
+      });
+    }
+
+    switch (payload.template) {
+      case 'site-not-working':
+        return this.sendEvent(routingKey, 'trigger', 'availability', form, payload, notifier);
+      case 'site-recovered':
+        return this.sendEvent(routingKey, 'resolve', 'availability', form, payload, notifier);
+      case 'change-notification':
+        return this.sendStatusEvent(routingKey, form, payload, notifier);
+      default:
+        log.debug(`PagerDuty ignores '${payload.template}' notifications`, { formId: form.id });
+    }
+  }
+
+  private async sendStatusEvent(
+    routingKey: string,
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<void> {
+    const { status, previousStatus } = payload.data;
+
+    // The first check of a form starts monitoring, it is not an incident
+    if (previousStatus === undefined) return;
+
+    if (status !== 'open' && status !== 'closed') {
+      return this.sendEvent(routingKey, 'trigger', 'status', form, payload, notifier);
+    }
+
+    const key = baselineKey(form, notifier);
+    const baseline = await this.config.state.get(key);
+
+    if (baseline === status) {
+      await this.sendEvent(routingKey, 'resolve', 'status', form, payload, notifier);
+      await this.config.state.delete(key);
+      return;
+    }
+
+    if (baseline === undefined) {
+      await this.config.state.set(key, previousStatus);
+    }
+    await this.sendEvent(routingKey, 'trigger', 'status', form, payload, notifier);
+  }
+
+  private async sendEvent(
+    routingKey: string,
+    action: EventAction,
+    kind: 'status' | 'availability',
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<void> {
+    const dedupKey = pagerDutyDedupKey(form.id, kind);
+    const event =
+      action === 'resolve'
+        ? { routing_key: routingKey, event_action: action, dedup_key: dedupKey }
+        : {
+            routing_key: routingKey,
+            event_action: action,
+            dedup_key: dedupKey,
+            payload: {
+              summary: [buildSubject(payload), payload.data.changeSummary]
+                .filter(Boolean)
+                .join(': ')
+                .slice(0, 1024),
+              source: form.url,
+              severity: this.severity(notifier),
+              timestamp: payload.data.checkedAt ?? new Date().toISOString(),
+              component: form.name,
+              class: payload.template,
+              custom_details: {
+                formId: form.id,
+                status: payload.data.status,
+                previousStatus: payload.data.previousStatus,
+                hash: payload.data.hash,
+              },
+            },
+            links: [{ href: form.url, text: form.name }],
+            client: 'Form Watcher',
+          };
+
+    await this.sendHttpRequest(this.eventsUrl, event, form);
+  }
+
+  private severity(notifier?: Notifier): PagerDutySeverity {
+    const value = this.customVar(notifier, 'severity');
+    return SEVERITIES.find((severity) => severity === value) ?? 'error';
+  }
+}
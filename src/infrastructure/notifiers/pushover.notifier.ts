@@ -0,0 +1,78 @@
+import { ConfigurationError } from '@src/core/custom.errors';
+import { NotificationPayload } from '@src/shared/types/notification.types';
+import { Form, Notifier } from '@src/shared/types/types';
+import { buildSubject } from '@src/shared/utils/template.util';
+
+import { HttpNotifier } from './http.notifier';
+
+export interface PushoverConfig {
+  /**
+   * Application token used when the notifier has no `customVars.appToken`
+   */
+  appToken?: string;
+
+  /**
+   * Messages API endpoint
+   * @default 'https://api.pushover.net/1/messages.json'
+   */
+  apiUrl?: string;
+}
+
+// Emergency priority repeats until acknowledged, within these bounds (seconds)
+const EMERGENCY_RETRY_SECONDS = 60;
+const EMERGENCY_EXPIRE_SECONDS = 3600;
+
+/**
+ * Sends push notifications through Pushover. `customVars.userKey` (a user or group
+ * key) is required; `appToken`, `priority` (-2 to 2, 1 by default so it bypasses
+ * quiet hours), `sound` and `device` are optional.
+ */
+export class PushoverNotifier extends HttpNotifier {
+  protected readonly name = 'PushoverNotifier';
+
+  constructor(private readonly config: PushoverConfig = {}) {
+    super();
+  }
+
+  protected async _send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<void> {
+    const appToken = this.customVar(notifier, 'appToken') ?? this.config.appToken;
+    const userKey = this.customVar(notifier, 'userKey');
+    if (!appToken || !userKey) {
+      throw new ConfigurationError('Pushover app token and user key are required', {
+        notifierId: notifier?.id,
+      });
+    }
+
+    const priority = this.priority(notifier);
+    const sound = this.customVar(notifier, 'sound');
+    const device = this.customVar(notifier, 'device');
+
+    const message = {
+      token: appToken,
+      user: userKey,
+      title: buildSubject(payload),
+      message: payload.data.changeSummary || 'No changes detected',
+      url: form.url,
+      url_title: `Open ${form.name}`,
+      priority,
+      ...(priority === 2 && { retry: EMERGENCY_RETRY_SECONDS, expire: EMERGENCY_EXPIRE_SECONDS }),
+      ...(sound && { sound }),
+      ...(device && { device }),
+    };
+
+    await this.sendHttpRequest(
+      this.config.apiUrl ?? 'https://api.pushover.net/1/messages.json',
+      message,
+      form
+    );
+  }
+
+  private priority(notifier?: Notifier): number {
+    const priority = Number(notifier?.customVars?.priority ?? 1);
+    return Number.isInteger(priority) && priority >= -2 && priority <= 2 ? priority : 1;
+  }
+}
@@ -1,16 +1,43 @@
+import { ConfigurationError, NotFoundError } from '@src/core/custom.errors';
 import { NotificationPayload } from '@src/shared/types/notification.types';
-import { Form } from '@src/shared/types/types';
-import { log } from '@src/shared/utils/logger.util';
+import { Form, Notifier } from '@src/shared/types/types';
+import { renderChannelTemplate } from '@src/shared/utils/template.util';
 
 import { HttpNotifier } from './http.notifier';
 
 export interface SlackConfig {
-  webhookUrl: string;
+  /**
+   * Default webhook for notifiers without their own `webhookUrl`
+   */
+  webhookUrl?: string;
   channel?: string;
   username?: string;
   iconUrl?: string;
 }
 
+interface SlackAttachment {
+  color: string;
+  fields: { title: string; value: string; short: boolean }[];
+  footer: string;
+  ts: number;
+}
+
+/**
+ * Incoming webhook message; `channel` and `icon_url` are only sent when configured.
+ */
+interface SlackMessage {
+  username?: string;
+  text: string;
+  attachments: SlackAttachment[];
+  channel?: string;
+  icon_url?: string;
+}
+
+/**
+ * Posts to the notifier's own `webhookUrl`, or the default webhook when it has none.
+ * The message text comes from the `slack` channel template. `customVars.channel`,
+ * `customVars.username` and `customVars.iconUrl` override the configured defaults.
+ */
 export class SlackNotifier extends HttpNotifier {
   protected readonly name = 'SlackNotifier';
   private readonly config: SlackConfig;
@@ -18,20 +45,31 @@ export class SlackNotifier extends HttpNotifier {
   constructor(config: SlackConfig) {
     super();
     this.config = config;
+  }
 
-    if (!this.config.webhookUrl) {
-      log.warn('Slack webhook URL not configured');
+  protected async _send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<void> {
+    const webhookUrl = notifier?.webhookUrl || this.config.webhookUrl;
+    if (!webhookUrl) {
+      throw new ConfigurationError('Slack webhook URL not configured', {
+        notifierId: notifier?.id,
+      });
     }
-  }
 
-  protected async _send(form: Form, payload: NotificationPayload): Promise<void> {
-    if (!this.config.webhookUrl) {
-      throw new Error('Slack webhook URL not configured');
+    const text = renderChannelTemplate('slack', form, payload, notifier);
+    if (text === undefined) {
+      throw new NotFoundError('Template', `${payload.template}.slack`);
     }
 
-    const slackPayload: any = {
-      username: this.config.username,
-      text: `*Form Update: ${form.name}*\n${payload.data.changeSummary || 'No changes detected'}`,
+    const channel = this.customVar(notifier, 'channel') ?? this.config.channel;
+    const iconUrl = this.customVar(notifier, 'iconUrl') ?? this.config.iconUrl;
+
+    const slackPayload: SlackMessage = {
+      username: this.customVar(notifier, 'username') ?? this.config.username,
+      text,
       attachments: [
         {
           color: '#36a64f',
@@ -53,10 +91,13 @@ export class SlackNotifier extends HttpNotifier {
       ],
     };
 
-    if (this.config.channel) {
-      slackPayload.channel = this.config.channel;
+    if (channel) {
+      slackPayload.channel = channel;
+    }
+    if (iconUrl) {
+      slackPayload.icon_url = iconUrl;
     }
 
-    await this.sendHttpRequest(this.config.webhookUrl, slackPayload, form);
+    await this.sendHttpRequest(webhookUrl, slackPayload, form);
   }
 }
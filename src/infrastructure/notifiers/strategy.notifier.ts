@@ -1,6 +1,7 @@
 import container from '@src/core/service.container';
-import { NotificationPayload } from '@src/shared/types/notification.types';
-import { Form } from '@src/shared/types/types';
+import { INJECTABLES } from '@src/shared/enums/enums';
+import { DeliveryReport, NotificationPayload } from '@src/shared/types/notification.types';
+import { Form, Notifier } from '@src/shared/types/types';
 import { log } from '@src/shared/utils/logger.util';
 
 export interface NotifierStrategy {
@@ -8,13 +9,26 @@ export interface NotifierStrategy {
    * Send a notification
    * @param form The form that triggered the notification
    * @param payload The payload to send
+   * @param notifier The notifier row the notification is sent for, when known
+   * @returns A report when only some recipients received the notification
    */
-  send(form: Form, payload: NotificationPayload): Promise<void>;
+  send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<DeliveryReport | void>;
 }
-const notifierKeyMap: Record<string, string> = {
-  email: 'emailNotifier',
-  discord: 'discordNotifier',
-  slack: 'slackNotifier',
+const notifierKeyMap: Record<string, INJECTABLES> = {
+  email: INJECTABLES.EMAIL_NOTIFIER,
+  discord: INJECTABLES.DISCORD_NOTIFIER,
+  slack: INJECTABLES.SLACK_NOTIFIER,
+  webhook: INJECTABLES.WEBHOOK_NOTIFIER,
+  telegram: INJECTABLES.TELEGRAM_NOTIFIER,
+  teams: INJECTABLES.TEAMS_NOTIFIER,
+  'google-chat': INJECTABLES.GOOGLE_CHAT_NOTIFIER,
+  pagerduty: INJECTABLES.PAGERDUTY_NOTIFIER,
+  ntfy: INJECTABLES.NTFY_NOTIFIER,
+  pushover: INJECTABLES.PUSHOVER_NOTIFIER,
 };
 
 export const NotifierRegistry = {
@@ -29,7 +43,7 @@ export const NotifierRegistry = {
     }
 
     try {
-      return container.get<NotifierStrategy>(serviceKey as any); // Assume registered as string keys
+      return container.get<NotifierStrategy>(serviceKey);
     } catch (error) {
       log.warn(`Notifier not found in container: ${serviceKey}`, { error });
       return undefined;
@@ -41,7 +55,7 @@ export const NotifierRegistry = {
    */
   has: (key: string): boolean => {
     const serviceKey = notifierKeyMap[key.toLowerCase()];
-    return serviceKey ? container.has(serviceKey as any) : false;
+    return serviceKey ? container.has(serviceKey) : false;
   },
 
   /**
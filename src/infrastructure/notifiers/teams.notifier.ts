@@ -0,0 +1,84 @@
+import { ConfigurationError } from '@src/core/custom.errors';
+import { NotificationPayload } from '@src/shared/types/notification.types';
+import { Form, Notifier } from '@src/shared/types/types';
+import { buildSubject, formatStatus, renderChannelTemplate } from '@src/shared/utils/template.util';
+
+import { HttpNotifier } from './http.notifier';
+
+export interface TeamsConfig {
+  /**
+   * Default incoming webhook for notifiers without their own `webhookUrl`
+   */
+  webhookUrl?: string;
+}
+
+/**
+ * Posts an Adaptive Card to a Microsoft Teams incoming webhook (or a Workflows
+ * webhook accepting the same message format), using the notifier's own `webhookUrl`
+ * or the default one. A `teams` channel template, if any, replaces the summary text.
+ */
+export class TeamsNotifier extends HttpNotifier {
+  protected readonly name = 'TeamsNotifier';
+
+  constructor(private readonly config: TeamsConfig = {}) {
+    super();
+  }
+
+  protected async _send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<void> {
+    const webhookUrl = notifier?.webhookUrl || this.config.webhookUrl;
+    if (!webhookUrl) {
+      throw new ConfigurationError('Teams webhook URL not configured', {
+        notifierId: notifier?.id,
+      });
+    }
+
+    const card = {
+      $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body: [
+        {
+          type: 'TextBlock',
+          text: buildSubject(payload),
+          weight: 'Bolder',
+          size: 'Medium',
+          wrap: true,
+        },
+        {
+          type: 'TextBlock',
+          text:
+            renderChannelTemplate('teams', form, payload, notifier) ??
+            (payload.data.changeSummary || 'No changes detected'),
+          wrap: true,
+        },
+        {
+          type: 'FactSet',
+          facts: [
+            { title: 'Status', value: formatStatus(payload.data.status) },
+            { title: 'Form', value: `[${form.name}](${form.url})` },
+          ],
+        },
+      ],
+      actions: [{ type: 'Action.OpenUrl', title: 'Open form', url: form.url }],
+    };
+
+    await this.sendHttpRequest(
+      webhookUrl,
+      {
+        type: 'message',
+        attachments: [
+          {
+            contentType: 'application/vnd.microsoft.card.adaptive',
+            contentUrl: null,
+            content: card,
+          },
+        ],
+      },
+      form
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { ConfigurationError } from '@src/core/custom.errors';
+import { NotificationPayload } from '@src/shared/types/notification.types';
+import { Form, Notifier } from '@src/shared/types/types';
+import { buildSubject, renderChannelTemplate } from '@src/shared/utils/template.util';
+
+import { HttpNotifier } from './http.notifier';
+
+export interface TelegramConfig {
+  /**
+   * Bot token used when the notifier has no `customVars.botToken`
+   */
+  botToken?: string;
+
+  /**
+   * Bot API base URL, overridable to point at a local stub
+   * @default 'https://api.telegram.org'
+   */
+  apiBaseUrl?: string;
+}
+
+export type TelegramParseMode = 'MarkdownV2' | 'HTML';
+
+/**
+ * Escapes text for MarkdownV2 outside of entities.
+ */
+export function escapeMarkdownV2(text: string): string {
+  return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+}
+
+/**
+ * Escapes text and attribute values for Telegram's HTML parse mode.
+ */
+export function escapeTelegramHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Formats a notification as a Telegram message in the given parse mode.
+ */
+export function formatTelegramMessage(
+  form: Form,
+  payload: NotificationPayload,
+  parseMode: TelegramParseMode
+): string {
+  const title = buildSubject(payload);
+  const summary = payload.data.changeSummary;
+  const status = payload.data.status;
+
+  if (parseMode === 'HTML') {
+    return [
+      `<b>${escapeTelegramHtml(title)}</b>`,
+      summary && escapeTelegramHtml(summary),
+      status && `Status: <b>${escapeTelegramHtml(status)}</b>`,
+      `<a href="${escapeTelegramHtml(form.url)}">${escapeTelegramHtml(form.name)}</a>`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  // Inside the link target only ')' and '\' need escaping
+  const linkTarget = form.url.replace(/[)\\]/g, '\\$&');
+  return [
+    `*${escapeMarkdownV2(title)}*`,
+    summary && escapeMarkdownV2(summary),
+    status && `Status: *${escapeMarkdownV2(status)}*`,
+    `[${escapeMarkdownV2(form.name)}](${linkTarget})`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Sends messages through the Telegram Bot API to the notifier's `chatId`.
+ * `customVars` may set `botToken`, `parseMode` (`HTML` by default, or `MarkdownV2`),
+ * `messageThreadId` for forum topics and `disableNotification`. A `telegram` channel
+ * template, if any, replaces the built-in message and must match the parse mode.
+ */
+export class TelegramNotifier extends HttpNotifier {
+  protected readonly name = 'TelegramNotifier';
+  private readonly apiBaseUrl: string;
+
+  constructor(private readonly config: TelegramConfig = {}) {
+    super();
+    this.apiBaseUrl = (config.apiBaseUrl ?? 'https://api.telegram.org').replace(/\/+$/, '');
+  }
+
+  protected async _send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<void> {
+    const botToken = this.customVar(notifier, 'botToken') ?? this.config.botToken;
+    if (!botToken) {
+      throw new ConfigurationError('Telegram bot token not configured', {
+        notifierId: notifier?.id,
+      });
+    }
+    if (!notifier?.chatId) {
+      throw new ConfigurationError('Telegram chat ID not configured', { notifierId: notifier?.id });
+    }
+
+    const parseMode: TelegramParseMode =
+      this.customVar(notifier, 'parseMode') === 'MarkdownV2' ? 'MarkdownV2' : 'HTML';
+    const threadId = Number(notifier.customVars?.messageThreadId);
+
+    const message = {
+      chat_id: notifier.chatId,
+      text:
+        renderChannelTemplate('telegram', form, payload, notifier) ??
+        formatTelegramMessage(form, payload, parseMode),
+      parse_mode: parseMode,
+      link_preview_options: { is_disabled: true },
+      ...(Number.isInteger(threadId) && threadId > 0 && { message_thread_id: threadId }),
+      ...(notifier.customVars?.disableNotification === true && { disable_notification: true }),
+    };
+
+    await this.sendHttpRequest(`${this.apiBaseUrl}/bot${botToken}/sendMessage`, message, form);
+  }
+}
@@ -0,0 +1,135 @@
+import { createHmac, randomUUID } from 'node:crypto';
+
+import { ConfigurationError } from '@src/core/custom.errors';
+import { NotificationPayload, NotificationTemplate } from '@src/shared/types/notification.types';
+import { FeedItem, Form, Notifier } from '@src/shared/types/types';
+import { log } from '@src/shared/utils/logger.util';
+
+import { HttpNotifier } from './http.notifier';
+
+export interface WebhookConfig {
+  /**
+   * Secret used when the notifier has no `customVars.secret`
+   */
+  signingSecret?: string;
+}
+
+export const WEBHOOK_EVENT_VERSION = 1;
+
+/**
+ * JSON body POSTed by the webhook strategy. New fields may be added within a
+ * version; removals or renames bump `version`.
+ */
+export interface WebhookEvent {
+  version: typeof WEBHOOK_EVENT_VERSION;
+  id: string;
+  type: NotificationTemplate;
+  createdAt: string;
+  form: {
+    id: string;
+    name: string;
+    url: string;
+    watcherType: string;
+  };
+  data: {
+    status?: string;
+    previousStatus?: string;
+    hash?: string;
+    checkedAt?: string;
+    changeSummary?: string;
+    newItems?: FeedItem[];
+  };
+}
+
+export const WEBHOOK_HEADERS = {
+  event: 'X-Form-Watcher-Event',
+  delivery: 'X-Form-Watcher-Delivery',
+  timestamp: 'X-Form-Watcher-Timestamp',
+  signature: 'X-Form-Watcher-Signature',
+} as const;
+
+/**
+ * Signs `${timestamp}.${body}` with HMAC-SHA256. Receivers recompute it from the raw
+ * body and the timestamp header, and should reject old timestamps to prevent replays.
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * POSTs a versioned JSON event to the notifier's `webhookUrl`. The body is signed when
+ * a secret is configured (`customVars.secret` or the default one), and
+ * `customVars.headers` adds request headers; the signature headers can't be overridden.
+ */
+export class WebhookNotifier extends HttpNotifier {
+  protected readonly name = 'WebhookNotifier';
+
+  constructor(private readonly config: WebhookConfig = {}) {
+    super();
+  }
+
+  protected async _send(
+    form: Form,
+    payload: NotificationPayload,
+    notifier?: Notifier
+  ): Promise<void> {
+    if (!notifier?.webhookUrl) {
+      throw new ConfigurationError('Webhook URL not configured', { notifierId: notifier?.id });
+    }
+
+    const event: WebhookEvent = {
+      version: WEBHOOK_EVENT_VERSION,
+      id: randomUUID(),
+      type: payload.template,
+      createdAt: new Date().toISOString(),
+      form: { id: form.id, name: form.name, url: form.url, watcherType: form.watcherType },
+      data: {
+        status: payload.data.status,
+        previousStatus: payload.data.previousStatus,
+        hash: payload.data.hash,
+        checkedAt: payload.data.checkedAt,
+        changeSummary: payload.data.changeSummary,
+        newItems: payload.data.newItems,
+      },
+    };
+
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const secret = this.customVar(notifier, 'secret') ?? this.config.signingSecret;
+
+    const headers: Record<string, string> = {
+      ...this.customHeaders(notifier),
+      [WEBHOOK_HEADERS.event]: event.type,
+      [WEBHOOK_HEADERS.delivery]: event.id,
+      [WEBHOOK_HEADERS.timestamp]: timestamp,
+    };
+    if (secret) {
+      headers[WEBHOOK_HEADERS.signature] = signWebhook(secret, timestamp, body);
+    }
+
+    await this.sendHttpRequest(notifier.webhookUrl, body, form, headers);
+  }
+
+  /**
+   * String entries of `customVars.headers`; other values are skipped with a warning.
+   */
+  private customHeaders(notifier: Notifier): Record<string, string> {
+    const raw = notifier.customVars?.headers;
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+
+    const reserved = new Set(
+      [...Object.values(WEBHOOK_HEADERS), 'Content-Type'].map((name) => name.toLowerCase())
+    );
+    const headers: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(raw)) {
+      if (typeof value !== 'string' || reserved.has(name.toLowerCase())) {
+        log.warn(`Ignoring webhook header '${name}'`, { notifierId: notifier.id });
+        continue;
+      }
+      headers[name] = value;
+    }
+
+    return headers;
+  }
+}
@@ -3,15 +3,22 @@
  * This module sets up the Drizzle ORM with the database connection string from environment variables.
  */
 
-import { env } from '@core/config/env.config';
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
-import { forms, notifiers } from './schema';
+
+import { env } from '@src/core/config/env.config';
+
+import { formHistory, forms, notifiers, schedulerLeases, watcherState } from './schema';
 
 const schema = {
   forms,
   notifiers,
+  formHistory,
+  schedulerLeases,
+  watcherState,
 };
 
 export const client = neon(env.DATABASE_URL);
 export const db = drizzle(client, { schema });
+
+export type Database = typeof db;
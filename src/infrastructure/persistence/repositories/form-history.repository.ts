@@ -0,0 +1,73 @@
+import { desc, eq } from 'drizzle-orm';
+
+import { CheckRecord, FormHistory } from '@src/shared/types/types';
+
+import { Database } from '../drizzle';
+import { formHistory, forms } from '../schema';
+
+type FormHistoryRow = typeof formHistory.$inferSelect;
+
+/**
+ * Maps a `form_history` row to the shared `FormHistory` type.
+ */
+export function toFormHistory(row: FormHistoryRow): FormHistory {
+  return {
+    id: row.id,
+    formId: row.formId,
+    status: row.status,
+    hash: row.hash ?? undefined,
+    responseTime: row.responseTime ?? undefined,
+    error: row.error ?? undefined,
+    checkedAt: row.checkedAt.toISOString(),
+  };
+}
+
+export class FormHistoryRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * Returns the most recent history entries of a form, newest first.
+   */
+  async findByFormId(formId: string, limit = 100): Promise<FormHistory[]> {
+    const rows = await this.db
+      .select()
+      .from(formHistory)
+      .where(eq(formHistory.formId, formId))
+      .orderBy(desc(formHistory.checkedAt))
+      .limit(limit);
+    return rows.map(toFormHistory);
+  }
+
+  /**
+   * Inserts a history entry and updates the form's `last_*` columns in a single
+   * transaction. Failed checks only touch `last_checked_at`, so `last_status` and
+   * `last_hash` keep describing the last successful observation.
+   */
+  async recordCheck(record: CheckRecord): Promise<void> {
+    const checkedAt = new Date(record.checkedAt);
+
+    const insertHistory = this.db.insert(formHistory).values({
+      formId: record.formId,
+      status: record.status,
+      hash: record.hash ?? null,
+      responseTime: record.responseTime ?? null,
+      error: record.error ?? null,
+      checkedAt,
+    });
+
+    const updateForm = this.db
+      .update(forms)
+      .set(
+        record.error
+          ? { lastCheckedAt: checkedAt }
+          : {
+              lastCheckedAt: checkedAt,
+              lastStatus: record.status,
+              ...(record.hash !== undefined && { lastHash: record.hash }),
+            }
+      )
+      .where(eq(forms.id, record.formId));
+
+    await this.db.batch([insertHistory, updateForm]);
+  }
+}
@@ -0,0 +1,122 @@
+import { asc, eq } from 'drizzle-orm';
+
+import { Form, FormInput } from '@src/shared/types/types';
+
+import { Database } from '../drizzle';
+import { forms } from '../schema';
+
+import { NotifierRepository } from './notifier.repository';
+
+type FormRow = typeof forms.$inferSelect;
+
+/**
+ * Maps a `forms` row to the shared `Form` type.
+ */
+export function toForm(row: FormRow): Form {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    watcherType: row.watcherType,
+    watcherConfig: (row.watcherConfig ?? {}) as Record<string, unknown>,
+    intervalSeconds: row.intervalSeconds,
+    cronSchedule: row.cronSchedule ?? undefined,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    weekdays: row.weekdays,
+    activeFrom: row.activeFrom,
+    activeTo: row.activeTo,
+    timezone: row.timezone ?? undefined,
+    enabled: row.enabled,
+    priority: row.priority,
+    lastCheckedAt: row.lastCheckedAt?.toISOString(),
+    lastStatus: row.lastStatus ?? undefined,
+    lastHash: row.lastHash ?? undefined,
+    lastNotifiedAt: row.lastNotifiedAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export class FormRepository {
+  constructor(
+    private readonly db: Database,
+    private readonly notifierRepository: NotifierRepository
+  ) {}
+
+  /**
+   * Returns all forms, enabled or not, without notifiers.
+   */
+  async findAll(): Promise<Form[]> {
+    const rows = await this.db
+      .select()
+      .from(forms)
+      .orderBy(asc(forms.priority), asc(forms.createdAt));
+    return rows.map(toForm);
+  }
+
+  /**
+   * Returns a form with all of its notifiers, or undefined if it does not exist.
+   */
+  async findById(id: string): Promise<Form | undefined> {
+    const [row] = await this.db.select().from(forms).where(eq(forms.id, id)).limit(1);
+    if (!row) return undefined;
+
+    return { ...toForm(row), notifiers: await this.notifierRepository.findByFormId(id) };
+  }
+
+  /**
+   * Returns every enabled form with its enabled notifiers joined into `Form.notifiers`.
+   */
+  async findEnabledWithNotifiers(): Promise<Form[]> {
+    const rows = await this.db
+      .select()
+      .from(forms)
+      .where(eq(forms.enabled, true))
+      .orderBy(asc(forms.priority), asc(forms.createdAt));
+
+    const formNotifiers = await this.notifierRepository.findEnabledByFormIds(
+      rows.map((row) => row.id)
+    );
+
+    return rows.map((row) => ({
+      ...toForm(row),
+      notifiers: formNotifiers.filter((notifier) => notifier.formId === row.id),
+    }));
+  }
+
+  /**
+   * Sets `last_notified_at` after a notification went out for the form.
+   */
+  async markNotified(id: string, at = new Date()): Promise<void> {
+    await this.db.update(forms).set({ lastNotifiedAt: at }).where(eq(forms.id, id));
+  }
+
+  async create(input: FormInput): Promise<Form> {
+    const [row] = await this.db.insert(forms).values(input).returning();
+    return { ...toForm(row), notifiers: [] };
+  }
+
+  /**
+   * Updates the given fields and bumps `updated_at`, which makes the scheduler
+   * recompute the form's next run.
+   * @returns The updated form, or undefined if it does not exist.
+   */
+  async update(id: string, input: Partial<FormInput>): Promise<Form | undefined> {
+    const [row] = await this.db
+      .update(forms)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(forms.id, id))
+      .returning();
+    return row ? toForm(row) : undefined;
+  }
+
+  /**
+   * Deletes a form; its notifiers and history are removed by the foreign key cascade.
+   * @returns True if a form was deleted.
+   */
+  async delete(id: string): Promise<boolean> {
+    const rows = await this.db.delete(forms).where(eq(forms.id, id)).returning({ id: forms.id });
+    return rows.length > 0;
+  }
+}
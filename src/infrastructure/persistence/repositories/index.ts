@@ -0,0 +1,4 @@
+export * from './form-history.repository';
+export * from './form.repository';
+export * from './lease.repository';
+export * from './notifier.repository';
@@ -0,0 +1,44 @@
+import { and, eq, sql } from 'drizzle-orm';
+
+import { Database } from '../drizzle';
+import { schedulerLeases } from '../schema';
+
+export class LeaseRepository {
+  constructor(private readonly db: Database) {}
+
+  /**
+   * Acquires or renews a lease in a single statement. The lease is granted when it does
+   * not exist, is already held by `holderId`, or has expired. Expiry is computed with
+   * the database clock so instances with skewed clocks agree.
+   * @returns True if `holderId` holds the lease afterwards.
+   */
+  async tryAcquire(name: string, holderId: string, ttlMs: number): Promise<boolean> {
+    const expiresAt = sql`now() + ${ttlMs} * interval '1 millisecond'`;
+
+    const rows = await this.db
+      .insert(schedulerLeases)
+      .values({ name, holderId, expiresAt })
+      .onConflictDoUpdate({
+        target: schedulerLeases.name,
+        set: {
+          holderId,
+          expiresAt,
+          renewedAt: sql`now()`,
+          acquiredAt: sql`case when ${schedulerLeases.holderId} = ${holderId} then ${schedulerLeases.acquiredAt} else now() end`,
+        },
+        setWhere: sql`${schedulerLeases.holderId} = ${holderId} or ${schedulerLeases.expiresAt} < now()`,
+      })
+      .returning({ holderId: schedulerLeases.holderId });
+
+    return rows[0]?.holderId === holderId;
+  }
+
+  /**
+   * Gives up a lease so another instance can take over without waiting for it to expire.
+   */
+  async release(name: string, holderId: string): Promise<void> {
+    await this.db
+      .delete(schedulerLeases)
+      .where(and(eq(schedulerLeases.name, name), eq(schedulerLeases.holderId, holderId)));
+  }
+}
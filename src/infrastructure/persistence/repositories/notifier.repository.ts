@@ -0,0 +1,120 @@
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+
+import { Notifier, NotifierInput } from '@src/shared/types/types';
+
+import { Database } from '../drizzle';
+import { notifiers } from '../schema';
+
+type NotifierRow = typeof notifiers.$inferSelect;
+
+/**
+ * Maps a `notifiers` row to the shared `Notifier` type.
+ */
+export function toNotifier(row: NotifierRow): Notifier {
+  return {
+    id: row.id,
+    formId: row.formId,
+    strategy: row.strategy,
+    emailTo: row.emailTo ?? undefined,
+    webhookUrl: row.webhookUrl ?? undefined,
+    notificationEmail: row.notificationEmail ?? undefined,
+    chatId: row.chatId ?? undefined,
+    customVars: (row.customVars ?? {}) as Record<string, unknown>,
+    enabled: row.enabled,
+    retryCount: row.retryCount,
+    lastError: row.lastError ?? undefined,
+    lastErrorAt: row.lastErrorAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export class NotifierRepository {
+  constructor(private readonly db: Database) {}
+
+  async findById(id: string): Promise<Notifier | undefined> {
+    const [row] = await this.db.select().from(notifiers).where(eq(notifiers.id, id)).limit(1);
+    return row ? toNotifier(row) : undefined;
+  }
+
+  /**
+   * Returns all notifiers attached to a form, enabled or not.
+   */
+  async findByFormId(formId: string): Promise<Notifier[]> {
+    const rows = await this.db
+      .select()
+      .from(notifiers)
+      .where(eq(notifiers.formId, formId))
+      .orderBy(asc(notifiers.createdAt));
+    return rows.map(toNotifier);
+  }
+
+  /**
+   * Returns the enabled notifiers for a set of forms.
+   */
+  async findEnabledByFormIds(formIds: string[]): Promise<Notifier[]> {
+    if (formIds.length === 0) return [];
+
+    const rows = await this.db
+      .select()
+      .from(notifiers)
+      .where(and(inArray(notifiers.formId, formIds), eq(notifiers.enabled, true)))
+      .orderBy(asc(notifiers.createdAt));
+    return rows.map(toNotifier);
+  }
+
+  async create(formId: string, input: NotifierInput): Promise<Notifier> {
+    const [row] = await this.db
+      .insert(notifiers)
+      .values({ ...input, formId })
+      .returning();
+    return toNotifier(row);
+  }
+
+  /**
+   * @returns The updated notifier, or undefined if it does not exist.
+   */
+  async update(id: string, input: Partial<NotifierInput>): Promise<Notifier | undefined> {
+    const [row] = await this.db
+      .update(notifiers)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(notifiers.id, id))
+      .returning();
+    return row ? toNotifier(row) : undefined;
+  }
+
+  /**
+   * @returns True if a notifier was deleted.
+   */
+  async delete(id: string): Promise<boolean> {
+    const rows = await this.db
+      .delete(notifiers)
+      .where(eq(notifiers.id, id))
+      .returning({ id: notifiers.id });
+    return rows.length > 0;
+  }
+
+  /**
+   * Clears the failure state after a successful delivery.
+   */
+  async recordSuccess(id: string): Promise<void> {
+    await this.db
+      .update(notifiers)
+      .set({ retryCount: 0, lastError: null, lastErrorAt: null })
+      .where(eq(notifiers.id, id));
+  }
+
+  /**
+   * Stores the last delivery error and increments the consecutive failure count.
+   */
+  async recordFailure(id: string, error: string, at = new Date()): Promise<void> {
+    await this.db
+      .update(notifiers)
+      .set({
+        retryCount: sql`${notifiers.retryCount} + 1`,
+        lastError: error,
+        lastErrorAt: at,
+      })
+      .where(eq(notifiers.id, id));
+  }
+}
@@ -10,5 +10,6 @@ export const formHistory = pgTable('form_history', {
   status: text('status').notNull(),
   hash: text('hash'),
   responseTime: integer('response_time'),
+  error: text('error'),
   checkedAt: timestamp('checked_at').notNull().defaultNow(),
 });
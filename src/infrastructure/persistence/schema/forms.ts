@@ -25,6 +25,7 @@ export const forms = pgTable('forms', {
   weekdays: text('weekdays').array().notNull(),
   activeFrom: time('active_from').notNull(),
   activeTo: time('active_to').notNull(),
+  timezone: text('timezone'),
   enabled: boolean('enabled').notNull().default(true),
   priority: integer('priority').notNull().default(2),
   lastCheckedAt: timestamp('last_checked_at'),
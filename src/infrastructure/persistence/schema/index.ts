@@ -1,3 +1,5 @@
 export { formHistory } from './form-history';
 export { forms } from './forms';
 export { notifiers } from './notifiers';
+export { schedulerLeases } from './scheduler-leases';
+export { watcherState } from './watcher-state';
@@ -1,4 +1,6 @@
-import { jsonb, pgTable, text, uuid } from 'drizzle-orm/pg-core';
+import { boolean, integer, jsonb, pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
+
+import { NotifierStrategyKey } from '@src/shared/types/types';
 
 import { forms } from './forms';
 
@@ -7,8 +9,16 @@ export const notifiers = pgTable('notifiers', {
   formId: uuid('form_id')
     .notNull()
     .references(() => forms.id, { onDelete: 'cascade' }),
-  strategy: text('strategy').notNull().$type<'email' | 'discord' | 'slack'>(),
+  strategy: text('strategy').notNull().$type<NotifierStrategyKey>(),
   emailTo: text('email_to').array(),
   webhookUrl: text('webhook_url'),
+  notificationEmail: text('notification_email'),
+  chatId: text('chat_id'),
   customVars: jsonb('custom_vars').notNull().default('{}'),
+  enabled: boolean('enabled').notNull().default(true),
+  retryCount: integer('retry_count').notNull().default(0),
+  lastError: text('last_error'),
+  lastErrorAt: timestamp('last_error_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
@@ -0,0 +1,9 @@
+import { pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+
+export const schedulerLeases = pgTable('scheduler_leases', {
+  name: text('name').primaryKey(),
+  holderId: text('holder_id').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  acquiredAt: timestamp('acquired_at').notNull().defaultNow(),
+  renewedAt: timestamp('renewed_at').notNull().defaultNow(),
+});
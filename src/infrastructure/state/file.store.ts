@@ -0,0 +1,82 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+
+import { CompareResult, compareValues, StateStore } from './state.store';
+
+/**
+ * State store persisted as a JSON file, intended for local development and
+ * single-instance setups without a database. The file is loaded once and rewritten
+ * atomically (write to a temporary file, then rename) after every change.
+ */
+export class FileStateStore implements StateStore {
+  private state: Map<string, string> | null = null;
+  private loading: Promise<Map<string, string>> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.load()).get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    (await this.load()).set(key, value);
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    if ((await this.load()).delete(key)) {
+      await this.persist();
+    }
+  }
+
+  async compareAndSet(key: string, value: string): Promise<CompareResult> {
+    const state = await this.load();
+    const previous = state.get(key);
+    state.set(key, value);
+
+    if (previous !== value) {
+      await this.persist();
+    }
+    return compareValues(previous, value);
+  }
+
+  private load(): Promise<Map<string, string>> {
+    if (this.state) return Promise.resolve(this.state);
+
+    this.loading ??= readFile(this.filePath, 'utf8')
+      .then((content) => new Map(Object.entries(JSON.parse(content) as Record<string, string>)))
+      .catch((error: { code?: string }) => {
+        if (error.code !== 'ENOENT') throw error;
+        return new Map<string, string>();
+      })
+      .then((state) => {
+        this.state = state;
+        return state;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+
+    return this.loading;
+  }
+
+  /**
+   * Serializes writes so an older snapshot never overwrites a newer one.
+   */
+  private persist(): Promise<void> {
+    const write = this.writing.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(Object.fromEntries(this.state ?? []), null, 2));
+      await rename(tempPath, this.filePath);
+    });
+
+    this.writing = write.catch((error) =>
+      ErrorLogger.logError('Failed to write state file', error, { filePath: this.filePath })
+    );
+    return write;
+  }
+}
@@ -0,0 +1,3 @@
+export * from './file.store';
+export * from './postgres.store';
+export * from './state.store';
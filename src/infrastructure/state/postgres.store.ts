@@ -0,0 +1,62 @@
+import { eq, sql } from 'drizzle-orm';
+
+import { Database } from '../persistence/drizzle';
+import { watcherState } from '../persistence/schema';
+
+import { CompareResult, compareValues, StateStore } from './state.store';
+
+/**
+ * State store backed by the `watcher_state` table.
+ */
+export class PostgresStateStore implements StateStore {
+  constructor(private readonly db: Database) {}
+
+  async get(key: string): Promise<string | undefined> {
+    const [row] = await this.db
+      .select({ value: watcherState.value })
+      .from(watcherState)
+      .where(eq(watcherState.key, key))
+      .limit(1);
+    return row?.value;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.db
+      .insert(watcherState)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: watcherState.key, set: { value, updatedAt: sql`now()` } });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.db.delete(watcherState).where(eq(watcherState.key, key));
+  }
+
+  /**
+   * Swaps the value in place. The subquery locks the row and, under READ COMMITTED,
+   * re-reads it once a concurrent writer commits, so each call sees the value written
+   * by the call before it. A missing row is inserted; if another check inserts it
+   * first, the swap is retried against that row.
+   */
+  async compareAndSet(key: string, value: string): Promise<CompareResult> {
+    const updated = await this.db.execute<{ previous: string }>(sql`
+      update ${watcherState} as state
+      set value = ${value}, updated_at = now()
+      from (
+        select key, value from ${watcherState} where key = ${key} for update
+      ) as previous
+      where state.key = previous.key
+      returning previous.value as previous
+    `);
+    if (updated.rows.length > 0) return compareValues(updated.rows[0].previous, value);
+
+    const inserted = await this.db.execute(sql`
+      insert into ${watcherState} (key, value, updated_at)
+      values (${key}, ${value}, now())
+      on conflict (key) do nothing
+      returning key
+    `);
+    if (inserted.rows.length > 0) return 'initial';
+
+    return this.compareAndSet(key, value);
+  }
+}
@@ -0,0 +1,21 @@
+export type CompareResult = 'initial' | 'changed' | 'unchanged';
+
+/**
+ * Durable key/value storage for watcher baselines such as the previous content hash.
+ * Unlike the fetch cache, entries never expire and are not evicted.
+ */
+export interface StateStore {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+
+  /**
+   * Stores `value` and reports how it relates to the previously stored value.
+   */
+  compareAndSet(key: string, value: string): Promise<CompareResult>;
+}
+
+export function compareValues(previous: string | undefined, value: string): CompareResult {
+  if (previous === undefined) return 'initial';
+  return previous === value ? 'unchanged' : 'changed';
+}
@@ -3,12 +3,12 @@ import { CircuitBreaker } from '@src/shared/api-clients/circuit-breaker.api-clie
 import { Form, WatcherResult } from '@src/shared/types/types';
 import { ContentFetcher } from '@src/shared/utils/content.fetcher.util';
 import { ContentNormalizer } from '@src/shared/utils/content.normalizer.util';
-import { ErrorLogger } from '@src/shared/utils/error.logger.util';
 import { handleError } from '@src/shared/utils/error.handler.util';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
 import { HashGenerator } from '@src/shared/utils/hash.generator.util';
 import { InputValidator } from '@src/shared/utils/input.validator.util';
 
-import { Cache } from '../cache';
+import { StateStore } from '../state';
 
 import { BaseWatcher } from './base.watcher';
 
@@ -19,12 +19,12 @@ import { BaseWatcher } from './base.watcher';
 export class AiTextWatcher extends BaseWatcher {
   constructor(
     circuitBreaker: CircuitBreaker,
-    cache: Cache,
+    state: StateStore,
     fetcher: ContentFetcher,
     hasher: HashGenerator,
     logger: ErrorLogger
   ) {
-    super('AiTextWatcher', circuitBreaker, cache, fetcher, hasher, logger);
+    super('AiTextWatcher', circuitBreaker, state, fetcher, hasher, logger);
   }
 
   /**
@@ -44,7 +44,7 @@ export class AiTextWatcher extends BaseWatcher {
         InputValidator.validateRegex(config.regex);
 
         // Fetch HTML content from target URL
-        const { content } = await this.fetcher.fetch(form.url);
+        const { content } = await this.fetcher.fetch(form.url, {}, form.lastCheckedAt);
         const responseTime = Date.now() - startTime;
 
         // Normalize HTML (e.g., strip scripts, collapse whitespace, etc.)
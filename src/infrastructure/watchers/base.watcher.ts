@@ -3,12 +3,12 @@ import { Form, Watcher, WatcherResult } from '@src/shared/types/types';
 import { ContentFetcher } from '@src/shared/utils/content.fetcher.util';
 import { ErrorLogger } from '@src/shared/utils/error.logger.util';
 import { HashGenerator } from '@src/shared/utils/hash.generator.util';
-import { metrics } from '@src/shared/utils/metrics.util';
+import { METRICS } from '@src/shared/utils/metrics.catalog.util';
 
-import { Cache } from '../cache';
+import { StateStore } from '../state';
 
 export abstract class BaseWatcher implements Watcher {
-  protected readonly cache: Cache;
+  protected readonly state: StateStore;
   protected readonly circuitBreaker: CircuitBreaker;
   protected readonly fetcher: ContentFetcher;
   protected readonly hasher: HashGenerator;
@@ -17,12 +17,12 @@ export abstract class BaseWatcher implements Watcher {
   constructor(
     protected readonly name: string,
     circuitBreaker: CircuitBreaker,
-    cache: Cache,
+    state: StateStore,
     fetcher: ContentFetcher,
     hasher: HashGenerator,
     logger: ErrorLogger
   ) {
-    this.cache = cache;
+    this.state = state;
     this.circuitBreaker = circuitBreaker;
     this.fetcher = fetcher;
     this.hasher = hasher;
@@ -31,26 +31,28 @@ export abstract class BaseWatcher implements Watcher {
 
   public async check(form: Form): Promise<WatcherResult> {
     const start = Date.now();
+    const labels = { watcher: this.name, formId: form.id };
+    METRICS.watcherChecks.inc(labels);
 
     try {
       const result = await this.circuitBreaker.execute(form.id, () => this.executeCheck(form));
 
-      metrics.histogram('watcher_check_duration_seconds', (Date.now() - start) / 1000, {
-        watcher: this.name,
-        formId: form.id,
-        status: 'success',
-      });
+      METRICS.watcherChecksSuccess.inc(labels);
+      METRICS.watcherCheckDuration.observe(
+        { ...labels, status: 'success' },
+        (Date.now() - start) / 1000
+      );
 
       return result;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       const errorName = err.constructor.name;
 
-      metrics.counter('watcher_check_errors_total', 1, {
-        watcher: this.name,
-        formId: form.id,
-        error: errorName,
-      });
+      METRICS.watcherCheckErrors.inc({ ...labels, error: errorName });
+      METRICS.watcherCheckDuration.observe(
+        { ...labels, status: 'error' },
+        (Date.now() - start) / 1000
+      );
 
       this.logger.logWatcherError(form.id, err, {
         form,
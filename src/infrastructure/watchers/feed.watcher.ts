@@ -0,0 +1,182 @@
+import * as cheerio from 'cheerio';
+
+import { CircuitBreaker } from '@src/shared/api-clients/circuit-breaker.api-client';
+import { FeedItem, Form, WatcherResult } from '@src/shared/types/types';
+import { ContentFetcher } from '@src/shared/utils/content.fetcher.util';
+import { handleError } from '@src/shared/utils/error.handler.util';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+import { HashGenerator } from '@src/shared/utils/hash.generator.util';
+
+import { StateStore } from '../state';
+
+import { BaseWatcher } from './base.watcher';
+
+const FEED_ACCEPT =
+  'application/rss+xml,application/atom+xml,application/xml;q=0.9,text/xml;q=0.8,*/*;q=0.5';
+
+// Upper bound on remembered item ids, so the state of long-lived feeds stays small
+const MAX_SEEN_ITEMS = 1000;
+
+interface ParsedItem extends FeedItem {
+  /**
+   * Identity used to recognize the item on later checks
+   */
+  id: string;
+}
+
+function toIsoDate(value: string): string | undefined {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function resolveLink(link: string, baseUrl: string): string | undefined {
+  if (!link) return undefined;
+  try {
+    return new URL(link, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extracts items from an RSS 2.0 / RSS 1.0 (`item`) or Atom (`entry`) document.
+ * Items are identified by their guid/id, falling back to the link and then title and date.
+ * @throws Error if the document is neither an RSS nor an Atom feed.
+ */
+function parseFeed(content: string, baseUrl: string): ParsedItem[] {
+  const $ = cheerio.load(content, { xml: true });
+
+  if ($('feed').length > 0) {
+    return $('feed > entry')
+      .toArray()
+      .map((element) => {
+        const entry = $(element);
+        const linkElement = entry.children('link[rel="alternate"], link:not([rel])').first();
+        const link = resolveLink(linkElement.attr('href')?.trim() ?? '', baseUrl);
+        const title = entry.children('title').text().trim();
+        const date = entry.children('published').text().trim() || entry.children('updated').text();
+        const id = entry.children('id').text().trim() || link || `${title}|${date}`;
+        return { id, title, link, publishedAt: toIsoDate(date.trim()) };
+      });
+  }
+
+  if ($('rss, rdf\\:RDF, RDF').length > 0) {
+    return $('item')
+      .toArray()
+      .map((element) => {
+        const item = $(element);
+        const link = resolveLink(item.children('link').text().trim(), baseUrl);
+        const title = item.children('title').text().trim();
+        const date = item.children('pubDate').text().trim() || item.children('dc\\:date').text();
+        const id =
+          item.children('guid').text().trim() ||
+          item.attr('rdf:about') ||
+          link ||
+          `${title}|${date}`;
+        return { id, title, link, publishedAt: toIsoDate(date.trim()) };
+      });
+  }
+
+  throw new Error('Response is not an RSS or Atom feed');
+}
+
+/**
+ * Watcher for RSS and Atom feeds. Remembers the ids of items it has seen and reports
+ * only items that were not in the feed before. The first check records the current
+ * items as the baseline without reporting them. New items are only marked as seen once
+ * their notification was delivered, so items held back by throttling or failed
+ * deliveries are reported again on the next check.
+ */
+export class FeedWatcher extends BaseWatcher {
+  constructor(
+    circuitBreaker: CircuitBreaker,
+    state: StateStore,
+    fetcher: ContentFetcher,
+    hasher: HashGenerator,
+    logger: ErrorLogger
+  ) {
+    super('FeedWatcher', circuitBreaker, state, fetcher, hasher, logger);
+  }
+
+  /**
+   * Loads the remembered item ids. Missing or unreadable state yields undefined so the
+   * check starts a new baseline instead of reporting every item as new.
+   */
+  private async loadSeen(formId: string): Promise<string[] | undefined> {
+    const stored = await this.state.get(`feed:${formId}:seen_items`);
+    if (stored === undefined) return undefined;
+
+    try {
+      const ids: unknown = JSON.parse(stored);
+      return Array.isArray(ids)
+        ? ids.filter((id): id is string => typeof id === 'string')
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores the current ids ahead of older ones. Ids still in the feed are always kept,
+   * older ones only up to `MAX_SEEN_ITEMS`.
+   */
+  private async saveSeen(formId: string, current: string[], previous: string[]): Promise<void> {
+    const ids = Array.from(new Set([...current, ...previous]));
+    await this.state.set(
+      `feed:${formId}:seen_items`,
+      JSON.stringify(ids.slice(0, Math.max(MAX_SEEN_ITEMS, current.length)))
+    );
+  }
+
+  protected async executeCheck(form: Form): Promise<WatcherResult> {
+    return handleError(
+      async () => {
+        const startTime = Date.now();
+        const { content, finalUrl } = await this.fetcher.fetch(
+          form.url,
+          { headers: { Accept: FEED_ACCEPT } },
+          form.lastCheckedAt
+        );
+        const responseTime = Date.now() - startTime;
+
+        const items = parseFeed(content, finalUrl);
+        const ids = items.map((item) => item.id);
+        const hash = this.hasher.generate(ids.join('\n'));
+
+        const seen = await this.loadSeen(form.id);
+        const seenIds = new Set(seen);
+        const newItems = seen
+          ? items
+              .filter((item, index) => !seenIds.has(item.id) && ids.indexOf(item.id) === index)
+              .map(({ title, link, publishedAt }) => ({ title, link, publishedAt }))
+          : [];
+
+        let status: WatcherResult['status'] = newItems.length > 0 ? 'changed' : 'unchanged';
+        if (!seen) {
+          await this.saveSeen(form.id, ids, []);
+          status = 'initial';
+        }
+
+        this.logger.logWatcherInfo(form.id, {
+          url: form.url,
+          finalUrl,
+          responseTime,
+          itemCount: items.length,
+          newItemCount: newItems.length,
+          status,
+        });
+
+        if (!seen || newItems.length === 0) return { status, hash, responseTime };
+
+        return {
+          status,
+          hash,
+          responseTime,
+          newItems,
+          acknowledge: () => this.saveSeen(form.id, ids, seen),
+        };
+      },
+      { formId: form.id, watcher: this.name, stage: 'fetch-or-parse' }
+    );
+  }
+}
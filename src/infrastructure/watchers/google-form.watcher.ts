@@ -4,13 +4,12 @@ import { CircuitBreaker } from '@src/shared/api-clients/circuit-breaker.api-clie
 import { Form, WatcherResult } from '@src/shared/types/types';
 import { ContentFetcher } from '@src/shared/utils/content.fetcher.util';
 import { ContentNormalizer } from '@src/shared/utils/content.normalizer.util';
-import { ErrorLogger } from '@src/shared/utils/error.logger.util';
 import { handleError } from '@src/shared/utils/error.handler.util';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
 import { HashGenerator } from '@src/shared/utils/hash.generator.util';
-
 import { log } from '@src/shared/utils/logger.util';
 
-import { Cache } from '../cache';
+import { StateStore } from '../state';
 
 import { BaseWatcher } from './base.watcher';
 
@@ -20,12 +19,12 @@ export class GoogleFormWatcher extends BaseWatcher {
 
   constructor(
     circuitBreaker: CircuitBreaker,
-    cache: Cache,
+    state: StateStore,
     fetcher: ContentFetcher,
     hasher: HashGenerator,
     logger: ErrorLogger
   ) {
-    super('GoogleFormWatcher', circuitBreaker, cache, fetcher, hasher, logger);
+    super('GoogleFormWatcher', circuitBreaker, state, fetcher, hasher, logger);
   }
 
   /**
@@ -74,7 +73,11 @@ export class GoogleFormWatcher extends BaseWatcher {
     return handleError(
       async () => {
         const startTime = Date.now();
-        const { content: html, finalUrl } = await this.fetcher.fetch(form.url);
+        const { content: html, finalUrl } = await this.fetcher.fetch(
+          form.url,
+          {},
+          form.lastCheckedAt
+        );
         const responseTime = Date.now() - startTime;
 
         const normalized = ContentNormalizer.normalizeHtml(html);
@@ -87,11 +90,9 @@ export class GoogleFormWatcher extends BaseWatcher {
 
         // Combine logics: Form is closed if any logic indicates closure
         const isClosed = textBasedIsClosed || elementBasedIsClosed || urlBasedIsClosed;
-        const newStatus = isClosed ? 'closed' : 'open';
+        const status = isClosed ? 'closed' : 'open';
         const hash = this.hasher.generate(normalized);
 
-        const status = await this.cache.compareAndSet(`google_form:${form.id}:prev_hash`, hash);
-
         // Log detection details for debugging
         log.info(form.id, {
           url: form.url,
@@ -101,14 +102,13 @@ export class GoogleFormWatcher extends BaseWatcher {
           elementBasedIsClosed,
           urlBasedIsClosed,
           closedTextUsed:
-            (form.watcherConfig as { closedText?: string })?.closedText || this.defaultFormClosedText,
-          status: newStatus,
+            (form.watcherConfig as { closedText?: string })?.closedText ||
+            this.defaultFormClosedText,
+          status,
         });
 
-        return {
-          status,
-          responseTime,
-        };
+        // Open/closed transitions are detected by the dispatcher against the form's last status
+        return { status, hash, responseTime };
       },
       { formId: form.id, watcher: this.name, stage: 'fetch-or-parse' }
     );
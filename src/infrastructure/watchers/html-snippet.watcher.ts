@@ -5,12 +5,11 @@ import { CircuitBreaker } from '@src/shared/api-clients/circuit-breaker.api-clie
 import { WatcherResult } from '@src/shared/types/types';
 import { ContentFetcher } from '@src/shared/utils/content.fetcher.util';
 import { ContentNormalizer } from '@src/shared/utils/content.normalizer.util';
-import { ErrorLogger } from '@src/shared/utils/error.logger.util';
 import { handleError } from '@src/shared/utils/error.handler.util';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
 import { HashGenerator } from '@src/shared/utils/hash.generator.util';
-import { metrics } from '@src/shared/utils/metrics.util';
 
-import { Cache } from '../cache';
+import { StateStore } from '../state';
 
 import { BaseWatcher } from './base.watcher';
 
@@ -30,12 +29,12 @@ const watcherConfigSchema = z
 export class HtmlSnippetWatcher extends BaseWatcher {
   constructor(
     circuitBreaker: CircuitBreaker,
-    cache: Cache,
+    state: StateStore,
     fetcher: ContentFetcher,
     hasher: HashGenerator,
     logger: ErrorLogger
   ) {
-    super('HtmlSnippetWatcher', circuitBreaker, cache, fetcher, hasher, logger);
+    super('HtmlSnippetWatcher', circuitBreaker, state, fetcher, hasher, logger);
   }
 
   private validateConfig(config: unknown) {
@@ -56,23 +55,20 @@ export class HtmlSnippetWatcher extends BaseWatcher {
     id: string;
     url: string;
     watcherConfig: unknown;
+    lastCheckedAt?: string;
   }): Promise<WatcherResult> {
     return handleError(
       async () => {
         const startTime = Date.now();
         const { selector, normalizeOptions } = this.validateConfig(form.watcherConfig);
 
-        const { content, finalUrl } = await this.fetcher.fetch(form.url);
+        const { content, finalUrl } = await this.fetcher.fetch(form.url, {}, form.lastCheckedAt);
         const responseTime = Date.now() - startTime;
-        metrics.histogram('watcher_check_duration_seconds', responseTime / 1000, {
-          watcher: this.name,
-          formId: form.id,
-        });
 
         const $ = cheerio.load(content);
         const normalized = this.extractSnippet($, selector, normalizeOptions);
         const hash = this.hasher.generate(normalized);
-        const status = await this.cache.compareAndSet(`html_snippet:${form.id}:prev_hash`, hash);
+        const status = await this.state.compareAndSet(`html_snippet:${form.id}:prev_hash`, hash);
 
         this.logger.logWatcherInfo(form.id, {
           url: form.url,
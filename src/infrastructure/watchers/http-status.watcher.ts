@@ -0,0 +1,128 @@
+import { z } from 'zod/v4';
+
+import { ConfigurationError } from '@src/core/custom.errors';
+import { CircuitBreaker } from '@src/shared/api-clients/circuit-breaker.api-client';
+import { Form, HttpResponse, WatcherResult } from '@src/shared/types/types';
+import { ContentFetcher } from '@src/shared/utils/content.fetcher.util';
+import { handleError } from '@src/shared/utils/error.handler.util';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+import { HashGenerator } from '@src/shared/utils/hash.generator.util';
+
+import { StateStore } from '../state';
+
+import { BaseWatcher } from './base.watcher';
+
+const statusCodeSchema = z.number().int().min(100).max(599);
+
+const watcherConfigSchema = z
+  .object({
+    method: z.enum(['GET', 'HEAD']).default('GET'),
+    expectedStatus: z.union([statusCodeSchema, z.array(statusCodeSchema).min(1)]).optional(),
+    maxResponseTimeMs: z.number().int().positive().optional(),
+    timeoutMs: z.number().int().positive().default(10000),
+    headers: z.record(z.string(), z.union([z.string(), z.literal(true)])).default({}),
+    bodyContains: z.array(z.string().min(1)).default([]),
+    bodyNotContains: z.array(z.string().min(1)).default([]),
+  })
+  .strict();
+
+type HttpStatusConfig = z.infer<typeof watcherConfigSchema>;
+
+/**
+ * Checks a response against the configured assertions.
+ * @returns A description of every failed assertion; empty when the response passes.
+ */
+function assertResponse(response: HttpResponse, config: HttpStatusConfig): string[] {
+  const failures: string[] = [];
+
+  const expected = config.expectedStatus === undefined ? [] : [config.expectedStatus].flat();
+  const statusOk = expected.length
+    ? expected.includes(response.status)
+    : response.status >= 200 && response.status < 300;
+  if (!statusOk) {
+    const wanted = expected.length ? expected.join(' or ') : '2xx';
+    failures.push(`Expected status ${wanted}, got ${response.status}`);
+  }
+
+  if (config.maxResponseTimeMs !== undefined && response.responseTime > config.maxResponseTimeMs) {
+    failures.push(
+      `Response took ${response.responseTime}ms, limit is ${config.maxResponseTimeMs}ms`
+    );
+  }
+
+  for (const [name, expectedValue] of Object.entries(config.headers)) {
+    const value = response.headers[name.toLowerCase()];
+    if (value === undefined) {
+      failures.push(`Missing header ${name}`);
+    } else if (expectedValue !== true && !value.includes(expectedValue)) {
+      failures.push(`Header ${name} does not contain '${expectedValue}'`);
+    }
+  }
+
+  for (const text of config.bodyContains) {
+    if (!response.content.includes(text)) failures.push(`Body does not contain '${text}'`);
+  }
+  for (const text of config.bodyNotContains) {
+    if (response.content.includes(text)) failures.push(`Body contains '${text}'`);
+  }
+
+  return failures;
+}
+
+/**
+ * Uptime watcher: requests the URL and reports `open` (up) when every assertion on the
+ * status code, response time, headers and body holds, and `closed` (down) otherwise.
+ * Requests that get no response at all still fail the check, so the circuit breaker and
+ * failure tracking apply as for other watchers.
+ */
+export class HttpStatusWatcher extends BaseWatcher {
+  constructor(
+    circuitBreaker: CircuitBreaker,
+    state: StateStore,
+    fetcher: ContentFetcher,
+    hasher: HashGenerator,
+    logger: ErrorLogger
+  ) {
+    super('HttpStatusWatcher', circuitBreaker, state, fetcher, hasher, logger);
+  }
+
+  private validateConfig(config: unknown): HttpStatusConfig {
+    const result = watcherConfigSchema.safeParse(config);
+    if (!result.success) {
+      throw new ConfigurationError(
+        `Invalid watcherConfig for http-status watcher: ${z.prettifyError(result.error)}`
+      );
+    }
+    return result.data;
+  }
+
+  protected async executeCheck(form: Form): Promise<WatcherResult> {
+    return handleError(
+      async () => {
+        const config = this.validateConfig(form.watcherConfig);
+
+        const response = await this.fetcher.fetchResponse(
+          form.url,
+          { method: config.method, headers: { Accept: '*/*' } },
+          config.timeoutMs
+        );
+        const failures = assertResponse(response, config);
+        const status = failures.length ? 'closed' : 'open';
+
+        this.logger.logWatcherInfo(form.id, {
+          url: form.url,
+          finalUrl: response.finalUrl,
+          responseTime: response.responseTime,
+          httpStatus: response.status,
+          failures,
+          status,
+        });
+
+        return failures.length
+          ? { status, responseTime: response.responseTime, failures }
+          : { status, responseTime: response.responseTime };
+      },
+      { formId: form.id, watcher: this.name, stage: 'fetch-or-assert' }
+    );
+  }
+}
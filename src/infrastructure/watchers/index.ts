@@ -4,13 +4,19 @@ import { WatcherType } from '@src/shared/enums/watcher-type.enum';
 import { Watcher } from '@src/shared/types/types';
 
 import { AiTextWatcher } from './ai-text.watcher';
+import { FeedWatcher } from './feed.watcher';
 import { GoogleFormWatcher } from './google-form.watcher';
 import { HtmlSnippetWatcher } from './html-snippet.watcher';
+import { HttpStatusWatcher } from './http-status.watcher';
+import { JsonApiWatcher } from './json-api.watcher';
 
 export * from './ai-text.watcher';
 export * from './base.watcher';
+export * from './feed.watcher';
 export * from './google-form.watcher';
 export * from './html-snippet.watcher';
+export * from './http-status.watcher';
+export * from './json-api.watcher';
 
 const watcherRegistry = new Map<WatcherType, Watcher>();
 
@@ -22,7 +28,7 @@ export const WatcherRegistry = {
   getAll: (): Map<WatcherType, Watcher> => new Map(watcherRegistry),
 };
 
-export function registerWatchers(container: Container) {
+export function registerWatchers(container: Container): void {
   WatcherRegistry.register(
     WatcherType.GoogleForm,
     container.get<GoogleFormWatcher>(INJECTABLES.GOOGLE_FORM_WATCHER)
@@ -37,4 +43,16 @@ export function registerWatchers(container: Container) {
     WatcherType.AiText,
     container.get<AiTextWatcher>(INJECTABLES.AI_TEXT_WATCHER)
   );
+
+  WatcherRegistry.register(
+    WatcherType.JsonApi,
+    container.get<JsonApiWatcher>(INJECTABLES.JSON_API_WATCHER)
+  );
+
+  WatcherRegistry.register(WatcherType.Feed, container.get<FeedWatcher>(INJECTABLES.FEED_WATCHER));
+
+  WatcherRegistry.register(
+    WatcherType.HttpStatus,
+    container.get<HttpStatusWatcher>(INJECTABLES.HTTP_STATUS_WATCHER)
+  );
 }
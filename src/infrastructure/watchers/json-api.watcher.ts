@@ -0,0 +1,185 @@
+import { isDeepStrictEqual } from 'node:util';
+
+import { JSONPath } from 'jsonpath-plus';
+import { z } from 'zod/v4';
+
+import { ConfigurationError } from '@src/core/custom.errors';
+import { CircuitBreaker } from '@src/shared/api-clients/circuit-breaker.api-client';
+import { Form, WatcherResult } from '@src/shared/types/types';
+import { ContentFetcher } from '@src/shared/utils/content.fetcher.util';
+import { handleError } from '@src/shared/utils/error.handler.util';
+import { ErrorLogger } from '@src/shared/utils/error.logger.util';
+import { HashGenerator } from '@src/shared/utils/hash.generator.util';
+
+import { StateStore } from '../state';
+
+import { BaseWatcher } from './base.watcher';
+
+const JSON_API_CONDITIONS = [
+  'changed',
+  'equals',
+  'greater-than',
+  'less-than',
+  'array-length-changed',
+] as const;
+
+export type JsonApiCondition = (typeof JSON_API_CONDITIONS)[number];
+
+const watcherConfigSchema = z
+  .object({
+    expression: z.string().trim().min(1, 'A JSONPath expression is required'),
+    method: z.enum(['GET', 'POST', 'PUT', 'PATCH']).default('GET'),
+    headers: z.record(z.string(), z.string()).default({}),
+    body: z.unknown().optional(),
+    condition: z.enum(JSON_API_CONDITIONS).default('changed'),
+    value: z.unknown().optional(),
+  })
+  .strict()
+  .refine((config) => config.condition !== 'equals' || config.value !== undefined, {
+    message: 'A value is required for the equals condition',
+    path: ['value'],
+  })
+  .refine(
+    (config) =>
+      (config.condition !== 'greater-than' && config.condition !== 'less-than') ||
+      typeof config.value === 'number',
+    { message: 'A numeric value is required for greater-than and less-than', path: ['value'] }
+  );
+
+type JsonApiConfig = z.infer<typeof watcherConfigSchema>;
+
+function toNumber(selected: unknown, expression: string): number {
+  const number = typeof selected === 'string' && selected.trim() ? Number(selected) : selected;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    throw new Error(`Expression '${expression}' did not select a number`);
+  }
+  return number;
+}
+
+/**
+ * Request options for the endpoint. Object bodies are sent as JSON; explicit headers win
+ * over the defaults.
+ */
+function requestOptions(config: JsonApiConfig) {
+  const jsonBody = config.body !== undefined && typeof config.body !== 'string';
+  const defaults: Record<string, string> = { Accept: 'application/json' };
+  if (jsonBody) defaults['Content-Type'] = 'application/json';
+
+  const custom = new Set(Object.keys(config.headers).map((name) => name.toLowerCase()));
+  const headers = Object.fromEntries(
+    Object.entries(defaults).filter(([name]) => !custom.has(name.toLowerCase()))
+  );
+
+  return {
+    method: config.method,
+    headers: { ...headers, ...config.headers },
+    body: jsonBody ? JSON.stringify(config.body) : (config.body as string | undefined),
+  };
+}
+
+/**
+ * Watcher that polls a JSON endpoint and evaluates a JSONPath expression against the response.
+ * `equals`, `greater-than` and `less-than` report the form as open while the condition holds and
+ * closed otherwise; `changed` and `array-length-changed` compare against the previous check.
+ */
+export class JsonApiWatcher extends BaseWatcher {
+  constructor(
+    circuitBreaker: CircuitBreaker,
+    state: StateStore,
+    fetcher: ContentFetcher,
+    hasher: HashGenerator,
+    logger: ErrorLogger
+  ) {
+    super('JsonApiWatcher', circuitBreaker, state, fetcher, hasher, logger);
+  }
+
+  private validateConfig(config: unknown): JsonApiConfig {
+    const result = watcherConfigSchema.safeParse(config);
+    if (!result.success) {
+      throw new ConfigurationError(
+        `Invalid watcherConfig for json-api watcher: ${z.prettifyError(result.error)}`
+      );
+    }
+    return result.data;
+  }
+
+  /**
+   * Evaluates the expression. A single match yields its value, several matches yield
+   * them as an array (so `$.slots[*]` can be counted).
+   * @throws Error if the expression matches nothing.
+   */
+  private select(json: unknown, expression: string): unknown {
+    const matches = JSONPath({
+      path: expression,
+      json: json as object,
+      wrap: true,
+      eval: 'safe',
+    }) as unknown[];
+    if (matches.length === 0) {
+      throw new Error(`Expression '${expression}' did not match the response`);
+    }
+    return matches.length === 1 ? matches[0] : matches;
+  }
+
+  private async evaluate(
+    form: Form,
+    config: JsonApiConfig,
+    selected: unknown,
+    hash: string
+  ): Promise<WatcherResult['status']> {
+    switch (config.condition) {
+      case 'equals':
+        return isDeepStrictEqual(selected, config.value) ? 'open' : 'closed';
+      case 'greater-than':
+        return toNumber(selected, config.expression) > (config.value as number) ? 'open' : 'closed';
+      case 'less-than':
+        return toNumber(selected, config.expression) < (config.value as number) ? 'open' : 'closed';
+      case 'array-length-changed':
+        if (!Array.isArray(selected)) {
+          throw new Error(`Expression '${config.expression}' did not select an array`);
+        }
+        return this.state.compareAndSet(`json_api:${form.id}:prev_length`, String(selected.length));
+      case 'changed':
+        return this.state.compareAndSet(`json_api:${form.id}:prev_hash`, hash);
+    }
+  }
+
+  protected async executeCheck(form: Form): Promise<WatcherResult> {
+    return handleError(
+      async () => {
+        const startTime = Date.now();
+        const config = this.validateConfig(form.watcherConfig);
+
+        const { content, finalUrl } = await this.fetcher.fetch(
+          form.url,
+          requestOptions(config),
+          form.lastCheckedAt
+        );
+        const responseTime = Date.now() - startTime;
+
+        let json: unknown;
+        try {
+          json = JSON.parse(content);
+        } catch {
+          throw new Error(`Response from ${finalUrl} is not valid JSON`);
+        }
+
+        const selected = this.select(json, config.expression);
+        const hash = this.hasher.generate(JSON.stringify(selected) ?? '');
+        const status = await this.evaluate(form, config, selected, hash);
+
+        this.logger.logWatcherInfo(form.id, {
+          url: form.url,
+          finalUrl,
+          responseTime,
+          expression: config.expression,
+          condition: config.condition,
+          status,
+        });
+
+        return { status, hash, responseTime };
+      },
+      { formId: form.id, watcher: this.name, stage: 'fetch-or-parse' }
+    );
+  }
+}
@@ -28,9 +28,9 @@ interface RequestDeduplicatorOptions {
 /**
  * A utility for deduplicating in-flight requests
  */
-export class RequestDeduplicator<T = any> {
+export class RequestDeduplicator<T = unknown> {
   private pendingRequests: Map<string, PendingRequest<T>> = new Map();
-  private cleanupInterval: NodeJS.Timeout | null = null;
+  private cleanupInterval: ReturnType<typeof setInterval> | null = null;
   private readonly options: Required<RequestDeduplicatorOptions>;
 
   constructor(options: RequestDeduplicatorOptions = {}) {
@@ -62,12 +62,14 @@ export class RequestDeduplicator<T = any> {
 
     // Create a new promise for this request
     let resolve: (value: T | PromiseLike<T>) => void;
-    let reject: (reason?: any) => void;
+    let reject: (reason?: unknown) => void;
 
     const promise = new Promise<T>((res, rej) => {
       resolve = res;
       reject = rej;
     });
+    // Only concurrent callers await the shared promise; without one a rejection would go unhandled
+    promise.catch(() => undefined);
 
     // Store the pending request
     const pendingRequest: PendingRequest<T> = {
@@ -169,13 +171,15 @@ export const requestDeduplicator = new RequestDeduplicator();
 /**
  * Decorator to deduplicate method calls
  */
-export function deduplicate(keyFn: (...args: any[]) => string = (...args) => JSON.stringify(args)) {
+export function deduplicate(
+  keyFn: (...args: unknown[]) => string = (...args) => JSON.stringify(args)
+): (target: object, propertyKey: string, descriptor: PropertyDescriptor) => PropertyDescriptor {
   const deduplicator = new RequestDeduplicator();
 
-  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+  return function (target: object, propertyKey: string, descriptor: PropertyDescriptor) {
     const originalMethod = descriptor.value;
 
-    descriptor.value = async function (...args: any[]) {
+    descriptor.value = async function (...args: unknown[]) {
       const key = `${target.constructor.name}.${propertyKey}:${keyFn(...args)}`;
       return deduplicator.execute(key, () => originalMethod.apply(this, args));
     };
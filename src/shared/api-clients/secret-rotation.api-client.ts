@@ -67,7 +67,7 @@ interface SecretRotationEvents {
  */
 export class SecretRotator extends EventEmitter {
   private secrets: Map<string, SecretOptions> = new Map();
-  private refreshIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private refreshIntervals: Map<string, ReturnType<typeof setInterval>> = new Map();
 
   /**
    * Register a new secret
@@ -1,5 +1,6 @@
 export enum INJECTABLES {
   CACHE = 'cache',
+  STATE_STORE = 'stateStore',
   HASH_GENERATOR = 'hashGenerator',
   CIRCUIT_BREAKER = 'circuitBreaker',
   CONTENT_FETCHER = 'contentFetcher',
@@ -7,11 +8,31 @@ export enum INJECTABLES {
   EMAIL_NOTIFIER = 'emailNotifier',
   SLACK_NOTIFIER = 'slackNotifier',
   DISCORD_NOTIFIER = 'discordNotifier',
+  WEBHOOK_NOTIFIER = 'webhookNotifier',
+  TELEGRAM_NOTIFIER = 'telegramNotifier',
+  TEAMS_NOTIFIER = 'teamsNotifier',
+  GOOGLE_CHAT_NOTIFIER = 'googleChatNotifier',
+  PAGERDUTY_NOTIFIER = 'pagerDutyNotifier',
+  NTFY_NOTIFIER = 'ntfyNotifier',
+  PUSHOVER_NOTIFIER = 'pushoverNotifier',
   RATE_LIMITER = 'rateLimiter',
   REQUEST_DEDUPLICATOR = 'requestDeduplicator',
   SECRET_ROTATOR = 'secretRotator',
 
+  FORM_REPOSITORY = 'formRepository',
+  NOTIFIER_REPOSITORY = 'notifierRepository',
+  FORM_HISTORY_REPOSITORY = 'formHistoryRepository',
+  LEASE_REPOSITORY = 'leaseRepository',
+  CHECK_RECORDER = 'checkRecorder',
+  NOTIFICATION_DISPATCHER = 'notificationDispatcher',
+  FAILURE_TRACKER = 'failureTracker',
+  HTTP_SERVER = 'httpServer',
+  LEADER_ELECTOR = 'leaderElector',
+
   GOOGLE_FORM_WATCHER = 'googleFormWatcher',
   HTML_SNIPPET_WATCHER = 'htmlSnippetWatcher',
   AI_TEXT_WATCHER = 'aiTextWatcher',
+  JSON_API_WATCHER = 'jsonApiWatcher',
+  FEED_WATCHER = 'feedWatcher',
+  HTTP_STATUS_WATCHER = 'httpStatusWatcher',
 }
@@ -5,4 +5,7 @@ export enum WatcherType {
   GoogleForm = 'google-form',
   HtmlSnippet = 'html-snippet',
   AiText = 'ai-text',
+  JsonApi = 'json-api',
+  Feed = 'feed',
+  HttpStatus = 'http-status',
 }
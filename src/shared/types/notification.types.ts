@@ -1,6 +1,9 @@
+import { FeedItem } from './types';
+
 export type NotificationTemplate =
   | 'change-notification'
   | 'site-not-working'
+  | 'site-recovered'
   | 'daily-notification-limit-reached';
 
 export interface TemplateData {
@@ -15,5 +18,40 @@ export interface NotificationPayload {
     url: string;
     changeSummary?: string;
     status?: 'open' | 'closed' | 'unknown';
+    previousStatus?: string;
+    hash?: string;
+
+    /**
+     * ISO timestamp of the check that triggered the notification
+     */
+    checkedAt?: string;
+
+    /**
+     * Newly published feed items, when the watcher reports them
+     */
+    newItems?: FeedItem[];
   };
 }
+
+export interface RecipientFailure {
+  recipient: string;
+  reason?: string;
+}
+
+/**
+ * Outcome details a strategy may report for a notification it sent
+ */
+export interface DeliveryReport {
+  /**
+   * Recipients the message could not be delivered to while others received it
+   */
+  rejected: RecipientFailure[];
+}
+
+export interface NotificationDelivery {
+  notifierId: string;
+  strategy: string;
+  success: boolean;
+  error?: string;
+  rejected?: RecipientFailure[];
+}
@@ -3,11 +3,13 @@
  * @description Shared types and interfaces
  */
 
+import { WatcherType } from '../enums/watcher-type.enum';
+
 export interface Form {
   id: string;
   name: string;
   url: string;
-  watcherType: 'google-form' | 'html-snippet' | 'ai-text';
+  watcherType: WatcherType;
   watcherConfig: Record<string, unknown>;
   intervalSeconds: number;
   cronSchedule?: string;
@@ -16,6 +18,7 @@ export interface Form {
   weekdays: string[];
   activeFrom: string;
   activeTo: string;
+  timezone?: string;
   enabled: boolean;
   priority: number;
   lastCheckedAt?: string;
@@ -27,13 +30,26 @@ export interface Form {
   notifiers?: Notifier[];
 }
 
+export type NotifierStrategyKey =
+  | 'email'
+  | 'discord'
+  | 'slack'
+  | 'webhook'
+  | 'telegram'
+  | 'teams'
+  | 'google-chat'
+  | 'pagerduty'
+  | 'ntfy'
+  | 'pushover';
+
 export interface Notifier {
   id: string;
   formId: string;
-  strategy: 'email' | 'discord' | 'slack';
+  strategy: NotifierStrategyKey;
   emailTo?: string[];
   webhookUrl?: string;
   notificationEmail?: string;
+  chatId?: string;
   customVars: Record<string, unknown>;
   enabled?: boolean;
   retryCount?: number;
@@ -43,19 +59,91 @@ export interface Notifier {
   updatedAt: string;
 }
 
+// Writable fields of a form; nullable fields may be cleared with null
+export type FormInput = Omit<
+  Form,
+  | 'id'
+  | 'cronSchedule'
+  | 'timezone'
+  | 'lastCheckedAt'
+  | 'lastStatus'
+  | 'lastHash'
+  | 'lastNotifiedAt'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'notifiers'
+> & {
+  cronSchedule?: string | null;
+  timezone?: string | null;
+};
+
+// Writable fields of a notifier; nullable fields may be cleared with null
+export type NotifierInput = Omit<
+  Notifier,
+  | 'id'
+  | 'formId'
+  | 'emailTo'
+  | 'webhookUrl'
+  | 'notificationEmail'
+  | 'chatId'
+  | 'retryCount'
+  | 'lastError'
+  | 'lastErrorAt'
+  | 'createdAt'
+  | 'updatedAt'
+> & {
+  emailTo?: string[] | null;
+  webhookUrl?: string | null;
+  notificationEmail?: string | null;
+  chatId?: string | null;
+};
+
 export interface FormHistory {
   id: string;
   formId: string;
   status: string;
   hash?: string;
   responseTime?: number;
+  error?: string;
   checkedAt: string;
 }
 
+// Outcome of a single check as recorded in form_history
+export type CheckRecord = Omit<FormHistory, 'id'>;
+
+/**
+ * Entry of an RSS or Atom feed
+ */
+export interface FeedItem {
+  title: string;
+  link?: string;
+
+  /**
+   * ISO timestamp when the feed provides a parseable date
+   */
+  publishedAt?: string;
+}
+
 export interface WatcherResult {
   status: 'open' | 'closed' | 'changed' | 'unchanged' | 'initial';
   hash?: string;
   responseTime: number;
+
+  /**
+   * Items that appeared since the previous check, reported by feed watchers
+   */
+  newItems?: FeedItem[];
+
+  /**
+   * Assertions that did not hold, reported by the http-status watcher
+   */
+  failures?: string[];
+
+  /**
+   * Persists state that may only be kept once the result was notified, e.g. feed items
+   * marked as seen. Called by the scheduler after a successful delivery.
+   */
+  acknowledge?: () => Promise<void>;
 }
 
 export interface Metrics {
@@ -74,6 +162,19 @@ export interface HealthStatus {
   timestamp: string;
 }
 
+export interface DependencyCheck {
+  status: 'ok' | 'error' | 'skipped';
+  latencyMs?: number;
+  error?: string;
+  [key: string]: unknown;
+}
+
+export interface ReadinessStatus {
+  status: 'ok' | 'error';
+  checks: Record<string, DependencyCheck>;
+  timestamp: string;
+}
+
 // Form configuration for watchers
 export interface FormConfig {
   id: string;
@@ -107,3 +208,17 @@ export interface FetchResult {
   content: string;
   finalUrl: string;
 }
+
+export interface HttpResponse extends FetchResult {
+  status: number;
+
+  /**
+   * Response headers with lower-cased names
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Milliseconds until the full body was received
+   */
+  responseTime: number;
+}
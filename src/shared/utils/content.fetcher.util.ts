@@ -1,15 +1,51 @@
+import { createHash } from 'node:crypto';
+
 import fetch, { RequestInit } from 'node-fetch';
 
 import { NetworkError } from '@src/core/custom.errors';
 import { Cache } from '@src/infrastructure/cache';
 
 import { requestDeduplicator } from '../api-clients/request-deduplicator.api-client';
-import { FetchResult } from '../types/types';
+import { FetchResult, HttpResponse } from '../types/types';
 
 import { InputValidator } from './input.validator.util';
-import { metrics } from './metrics.util';
+import { METRICS } from './metrics.catalog.util';
 import { retryOperation } from './retry.util';
 
+const DEFAULT_ACCEPT = 'text/html,application/xhtml+xml';
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Builds the cache and deduplication key for a request. Plain GETs keep the URL-only key;
+ * other methods, bodies and custom headers get a digest so different requests to the same
+ * URL don't share a cached response.
+ */
+function requestKey(url: string, options: Omit<RequestInit, 'signal'>): string {
+  const method = (options.method ?? 'GET').toUpperCase();
+  const headers = options.headers ? Object.entries(options.headers) : [];
+  if (method === 'GET' && options.body == null && headers.length === 0) return `fetch:${url}`;
+
+  const digest = createHash('sha256')
+    .update(JSON.stringify({ headers, body: options.body == null ? null : String(options.body) }))
+    .digest('hex');
+  return `fetch:${method}:${url}:${digest}`;
+}
+
+/**
+ * Default request headers; `Accept` is left to the caller when it sets one in any casing.
+ */
+function requestHeaders(userAgent: string, headers: RequestInit['headers'] = {}) {
+  const custom = headers as Record<string, string>;
+  const hasAccept = Object.keys(custom).some((name) => name.toLowerCase() === 'accept');
+
+  return {
+    'User-Agent': userAgent,
+    ...(hasAccept ? {} : { Accept: DEFAULT_ACCEPT }),
+    'Accept-Language': 'en-US,en;q=0.5',
+    ...custom,
+  };
+}
+
 export class ContentFetcher {
   private readonly name: string;
   private readonly cache: Cache;
@@ -23,62 +59,108 @@ export class ContentFetcher {
 
   /**
    * Fetches content from a URL with caching, deduplication, and retries, returning content and final URL.
+   * When the cache runs with stale-while-revalidate, expired content is returned immediately
+   * and refreshed in the background.
+   * HTML is requested unless `options.headers` sets its own `Accept` header.
    * @param url The URL to fetch.
-   * @param options Optional fetch options (excluding signal).
+   * @param options Optional fetch options (excluding signal), with headers as a plain object.
+   * @param newerThan ISO timestamp; content cached at or before it is fetched again. Watchers
+   * pass the form's `lastCheckedAt` so a check never reuses the response its previous check saw.
    * @returns An object containing the fetched content and final URL after redirects.
    * @throws NetworkError if the fetch fails or the response is not OK.
    */
-  public async fetch(url: string, options: Omit<RequestInit, 'signal'> = {}): Promise<FetchResult> {
+  public async fetch(
+    url: string,
+    options: Omit<RequestInit, 'signal'> = {},
+    newerThan?: string
+  ): Promise<FetchResult> {
     InputValidator.validateUrl(url);
-    const cacheKey = `fetch:${url}`;
-    const cached = await this.cache.get(cacheKey);
-    if (cached) {
-      metrics.counter('fetch_cache_hits_total', 1, { watcher: this.name });
-      return cached as FetchResult;
-    }
-
-    metrics.counter('fetch_cache_misses_total', 1, { watcher: this.name });
+    const cacheKey = requestKey(url, options);
+    const storedAfter = newerThan ? Date.parse(newerThan) : NaN;
 
     const fetchWithRetry = async (): Promise<FetchResult> => {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 10000);
-
-      try {
-        const fetchOptions: RequestInit = {
-          ...options,
-          signal: controller.signal,
-          headers: {
-            'User-Agent': this.randomAgent(),
-            Accept: 'text/html,application/xhtml+xml',
-            'Accept-Language': 'en-US,en;q=0.5',
-            ...(options.headers || {}),
-          },
-          redirect: 'follow',
-        };
-        const res = await fetch(url, fetchOptions);
-        clearTimeout(timeout);
-
-        if (!res.ok) {
-          throw new NetworkError('Failed to fetch content', url, res.status, {
-            status: res.status,
-            url,
-          });
-        }
-
-        const content = await res.text();
-        const finalUrl = res.url || url; // Fallback to input URL if res.url is unavailable
-        const result: FetchResult = { content, finalUrl };
-        await this.cache.set(cacheKey, result);
-        return result;
-      } catch (e) {
-        clearTimeout(timeout);
-        throw e;
+      const { status, content, finalUrl } = await this.request(url, options);
+
+      if (status < 200 || status >= 300) {
+        throw new NetworkError('Failed to fetch content', url, status, { status, url });
       }
+
+      return { content, finalUrl };
     };
 
-    return await requestDeduplicator.execute(cacheKey, () =>
-      retryOperation(fetchWithRetry, 3, 1000)
+    const { value, state } = await this.cache.getOrLoad(
+      cacheKey,
+      () => requestDeduplicator.execute(cacheKey, () => retryOperation(fetchWithRetry, 3, 1000)),
+      undefined,
+      Number.isNaN(storedAfter) ? undefined : storedAfter
     );
+
+    if (state === 'miss') {
+      METRICS.fetchCacheMisses.inc({ watcher: this.name });
+    } else {
+      METRICS.fetchCacheHits.inc({ watcher: this.name });
+      if (state === 'stale') METRICS.fetchCacheStaleHits.inc({ watcher: this.name });
+    }
+
+    return value as FetchResult;
+  }
+
+  /**
+   * Performs a single request without caching, deduplication or retries and returns the
+   * response whatever its status, for watchers that judge the status themselves.
+   * @param url The URL to fetch.
+   * @param options Optional fetch options (excluding signal), with headers as a plain object.
+   * @param timeoutMs Time after which the request is aborted.
+   * @throws NetworkError if no response is received (DNS failure, refused connection, timeout).
+   */
+  public async fetchResponse(
+    url: string,
+    options: Omit<RequestInit, 'signal'> = {},
+    timeoutMs = DEFAULT_TIMEOUT_MS
+  ): Promise<HttpResponse> {
+    InputValidator.validateUrl(url);
+
+    try {
+      return await this.request(url, options, timeoutMs);
+    } catch (error) {
+      const aborted = error instanceof Error && error.name === 'AbortError';
+      throw new NetworkError(
+        aborted ? `Request timed out after ${timeoutMs}ms` : 'Request failed',
+        url,
+        undefined,
+        { cause: error instanceof Error ? error.message : String(error) }
+      );
+    }
+  }
+
+  private async request(
+    url: string,
+    options: Omit<RequestInit, 'signal'>,
+    timeoutMs = DEFAULT_TIMEOUT_MS
+  ): Promise<HttpResponse> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const startTime = Date.now();
+
+    try {
+      const res = await fetch(url, {
+        ...options,
+        signal: controller.signal,
+        headers: requestHeaders(this.randomAgent(), options.headers),
+        redirect: 'follow',
+      });
+      const content = await res.text();
+
+      return {
+        status: res.status,
+        headers: Object.fromEntries(res.headers.entries()),
+        content,
+        finalUrl: res.url || url, // Fallback to input URL if res.url is unavailable
+        responseTime: Date.now() - startTime,
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
   }
 
   private randomAgent(): string {
@@ -1,5 +1,5 @@
 import { ErrorLogger } from '@src/shared/utils/error.logger.util';
-import { metrics } from '@src/shared/utils/metrics.util';
+import { METRICS } from '@src/shared/utils/metrics.catalog.util';
 
 export async function handleError<T>(
   operation: () => Promise<T>,
@@ -10,7 +10,7 @@ export async function handleError<T>(
   } catch (error) {
     const err = error instanceof Error ? error : new Error(String(error));
     ErrorLogger.logError('Operation failed', err, context);
-    metrics.counter('operation_errors_total', 1, {
+    METRICS.operationErrors.inc({
       watcher: context.watcher ?? 'unknown',
       formId: context.formId ?? 'unknown',
       stage: context.stage ?? 'unknown',
@@ -1,7 +1,7 @@
 import { ConfigurationError, NetworkError, ValidationError } from '@src/core/custom.errors';
 
 import { log } from './logger.util';
-import { metrics } from './metrics.util';
+import { METRICS } from './metrics.catalog.util';
 
 export class ErrorLogger {
   constructor(private readonly watcherName: string) {}
@@ -22,7 +22,7 @@ export class ErrorLogger {
       cause: err.cause,
     });
 
-    metrics.counter('errors_total', 1, { error: name });
+    METRICS.errors.inc({ error: name });
   }
 
   public logWatcherError(
@@ -49,7 +49,7 @@ export class ErrorLogger {
       });
     }
 
-    metrics.counter('watcher_errors_total', 1, {
+    METRICS.watcherErrors.inc({
       watcher: this.watcherName,
       formId,
       error: name,
@@ -63,7 +63,7 @@ export class ErrorLogger {
       formId,
     });
 
-    metrics.counter('watcher_info_total', 1, {
+    METRICS.watcherInfo.inc({
       watcher: this.watcherName,
       formId,
     });
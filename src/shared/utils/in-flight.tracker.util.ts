@@ -0,0 +1,45 @@
+/**
+ * Keeps track of running operations so shutdown can wait for them to settle.
+ */
+export class InFlightTracker {
+  private readonly operations = new Set<Promise<unknown>>();
+
+  /**
+   * Registers an operation and returns it unchanged.
+   */
+  track<T>(operation: Promise<T>): Promise<T> {
+    const settled = operation.then(
+      () => undefined,
+      () => undefined
+    );
+    this.operations.add(settled);
+    settled.finally(() => this.operations.delete(settled));
+    return operation;
+  }
+
+  get size(): number {
+    return this.operations.size;
+  }
+
+  /**
+   * Waits until every tracked operation settled, including ones started while waiting.
+   * @returns False if operations were still running when the timeout elapsed.
+   */
+  async drain(timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (this.operations.size > 0) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return false;
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, remaining);
+      });
+      await Promise.race([Promise.all(this.operations), timeout]);
+      clearTimeout(timer);
+    }
+
+    return true;
+  }
+}
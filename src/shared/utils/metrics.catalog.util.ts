@@ -0,0 +1,106 @@
+import { metrics } from './metrics.util';
+
+/**
+ * Every metric the application exposes, declared once. Import the handle instead of
+ * referring to metrics by name so label names are checked by the compiler.
+ */
+export const METRICS = {
+  watcherChecks: metrics.createCounter({
+    name: 'watcher_checks_total',
+    help: 'Total number of watcher checks',
+    labelNames: ['watcher', 'formId'],
+  }),
+
+  watcherChecksSuccess: metrics.createCounter({
+    name: 'watcher_checks_success_total',
+    help: 'Total number of successful watcher checks',
+    labelNames: ['watcher', 'formId'],
+  }),
+
+  watcherCheckErrors: metrics.createCounter({
+    name: 'watcher_check_errors_total',
+    help: 'Total number of failed watcher checks',
+    labelNames: ['watcher', 'formId', 'error'],
+  }),
+
+  watcherCheckDuration: metrics.createHistogram({
+    name: 'watcher_check_duration_seconds',
+    help: 'Duration of watcher checks in seconds',
+    labelNames: ['watcher', 'formId', 'status'],
+    buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  }),
+
+  watcherErrors: metrics.createCounter({
+    name: 'watcher_errors_total',
+    help: 'Total number of errors logged by watchers',
+    labelNames: ['watcher', 'formId', 'error'],
+  }),
+
+  watcherInfo: metrics.createCounter({
+    name: 'watcher_info_total',
+    help: 'Total number of informational watcher events',
+    labelNames: ['watcher', 'formId'],
+  }),
+
+  schedulerQueuedChecks: metrics.createGauge({
+    name: 'scheduler_queued_checks',
+    help: 'Number of due checks waiting for a free worker',
+  }),
+
+  schedulerActiveChecks: metrics.createGauge({
+    name: 'scheduler_active_checks',
+    help: 'Number of checks currently running',
+  }),
+
+  fetchCacheHits: metrics.createCounter({
+    name: 'fetch_cache_hits_total',
+    help: 'Total number of fetch cache hits',
+    labelNames: ['watcher'],
+  }),
+
+  fetchCacheMisses: metrics.createCounter({
+    name: 'fetch_cache_misses_total',
+    help: 'Total number of fetch cache misses',
+    labelNames: ['watcher'],
+  }),
+
+  fetchCacheStaleHits: metrics.createCounter({
+    name: 'fetch_cache_stale_hits_total',
+    help: 'Total number of fetches served stale from the cache while refreshing',
+    labelNames: ['watcher'],
+  }),
+
+  operationErrors: metrics.createCounter({
+    name: 'operation_errors_total',
+    help: 'Total number of failed operations wrapped by handleError',
+    labelNames: ['watcher', 'formId', 'stage', 'error'],
+  }),
+
+  errors: metrics.createCounter({
+    name: 'errors_total',
+    help: 'Total number of logged errors by error class',
+    labelNames: ['error'],
+  }),
+
+  httpRequests: metrics.createCounter({
+    name: 'http_requests_total',
+    help: 'Total number of HTTP requests',
+    labelNames: ['method', 'path', 'status'],
+  }),
+
+  httpRequestDuration: metrics.createSummary({
+    name: 'http_request_duration_seconds',
+    help: 'HTTP request duration in seconds',
+    labelNames: ['method', 'path'],
+    percentiles: [0.5, 0.9, 0.99],
+    maxAgeSeconds: 600,
+    ageBuckets: 5,
+    pruneAgedBuckets: true,
+  }),
+
+  nodejsMemoryUsage: metrics.createGauge({
+    name: 'nodejs_memory_usage_bytes',
+    help: 'Node.js memory usage in bytes',
+    labelNames: ['type'],
+  }),
+};
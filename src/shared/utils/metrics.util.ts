@@ -1,282 +1,440 @@
 import { EventEmitter } from 'node:events';
 
-import { Request, Response } from 'node-fetch';
-
 import { log } from '@src/shared/utils/logger.util';
 
 type MetricType = 'counter' | 'gauge' | 'histogram' | 'summary';
 
-interface MetricOptions {
-  type: MetricType;
+/**
+ * Label values keyed by the label names a metric was declared with. Passing a label
+ * the metric does not know, or omitting one, fails compilation.
+ */
+export type LabelValues<L extends string> = { [K in L]: string };
+
+interface MetricOptions<L extends string> {
   name: string;
-  help?: string;
-  labelNames?: string[];
-  buckets?: number[]; // For histogram
-  percentiles?: number[]; // For summary
-  maxAgeSeconds?: number; // For summary
-  ageBuckets?: number; // For summary
-  pruneAgedBuckets?: boolean; // For summary
+  help: string;
+  labelNames?: readonly L[];
 }
 
-interface MetricValue {
-  labels: Record<string, string>;
-  value: number;
-  timestamp?: number;
+export interface HistogramOptions<L extends string> extends MetricOptions<L> {
+  /**
+   * Upper bounds of the buckets; `+Inf` is added automatically
+   */
+  buckets?: number[];
 }
 
-interface MetricData {
-  type: MetricType;
-  help: string;
-  values: Map<string, MetricValue>;
-  options: Omit<MetricOptions, 'name' | 'type' | 'help'>;
+export interface SummaryOptions<L extends string> extends MetricOptions<L> {
+  /**
+   * Quantiles to report, between 0 and 1
+   */
+  percentiles?: number[];
+
+  /**
+   * Length of the sliding window quantiles are computed over
+   */
+  maxAgeSeconds?: number;
+
+  /**
+   * Number of buckets the window is split into; one bucket expires at a time
+   */
+  ageBuckets?: number;
+
+  /**
+   * Omit quantiles for label sets without observations in the window instead of reporting NaN
+   */
+  pruneAgedBuckets?: boolean;
+}
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const DEFAULT_PERCENTILES = [0.5, 0.9, 0.99];
+const DEFAULT_MAX_AGE_SECONDS = 600;
+const DEFAULT_AGE_BUCKETS = 5;
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabelValue(v)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+interface Series<S> {
+  labels: Record<string, string>;
+  state: S;
 }
 
 /**
- * A simple metrics collector that can be used to track application metrics
+ * Shared bookkeeping for all metric types: one series per distinct label set.
  */
-export class MetricsCollector extends EventEmitter {
-  private metrics: Map<string, MetricData> = new Map();
-  private defaultLabels: Record<string, string> = {};
+abstract class Metric<L extends string, S> {
+  abstract readonly type: MetricType;
+  protected readonly series = new Map<string, Series<S>>();
+  readonly labelNames: readonly L[];
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    labelNames: readonly L[] = [],
+    protected readonly collector: MetricsCollector
+  ) {
+    this.labelNames = labelNames;
+  }
 
-  /**
-   * Register a new metric
-   */
-  register(options: MetricOptions): void {
-    if (this.metrics.has(options.name)) {
-      throw new Error(`Metric ${options.name} already registered`);
+  protected abstract initialState(): S;
+  protected abstract collectSeries(series: Series<S>): string[];
+
+  protected getSeries(labels: LabelValues<L>): Series<S> {
+    const allLabels: Record<string, string> = { ...this.collector.getDefaultLabels() };
+    for (const labelName of this.labelNames) {
+      allLabels[labelName] = String(labels[labelName] ?? '');
     }
 
-    this.metrics.set(options.name, {
-      type: options.type,
-      help: options.help || '',
-      values: new Map(),
-      options: {
-        labelNames: options.labelNames || [],
-        buckets: options.buckets,
-        percentiles: options.percentiles,
-        maxAgeSeconds: options.maxAgeSeconds,
-        ageBuckets: options.ageBuckets,
-        pruneAgedBuckets: options.pruneAgedBuckets,
-      },
+    const key = Object.entries(allLabels)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${k}=${JSON.stringify(v)}`)
+      .join(',');
+
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: allLabels, state: this.initialState() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  protected notify(labels: Record<string, string>, value: number): void {
+    this.collector.emit('metricUpdate', {
+      name: this.name,
+      type: this.type,
+      value,
+      labels,
+      timestamp: Date.now(),
     });
+  }
 
-    log.debug(`Registered metric: ${options.name} (${options.type})`);
+  collect(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${escapeHelp(this.help)}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const series of this.series.values()) {
+      lines.push(...this.collectSeries(series));
+    }
+    return lines;
   }
 
-  /**
-   * Set default labels for all metrics
-   */
-  setDefaultLabels(labels: Record<string, string>): void {
-    this.defaultLabels = { ...labels };
+  reset(): void {
+    this.series.clear();
   }
+}
 
-  /**
-   * Increment a counter metric
-   */
-  counter(name: string, value: number = 1, labels: Record<string, string> = {}): void {
-    this.updateMetric('counter', name, value, labels);
+export class Counter<L extends string = never> extends Metric<L, { value: number }> {
+  readonly type = 'counter';
+
+  inc(labels: LabelValues<L>, value = 1): void {
+    if (value < 0) {
+      log.warn(`Counter ${this.name} cannot be decreased`);
+      return;
+    }
+    const series = this.getSeries(labels);
+    series.state.value += value;
+    this.notify(series.labels, series.state.value);
   }
 
-  /**
-   * Set a gauge metric
-   */
-  gauge(name: string, value: number, labels: Record<string, string> = {}): void {
-    this.updateMetric('gauge', name, value, labels);
+  protected initialState(): { value: number } {
+    return { value: 0 };
   }
 
-  /**
-   * Observe a histogram value
-   */
-  histogram(name: string, value: number, labels: Record<string, string> = {}): void {
-    this.updateMetric('histogram', name, value, labels);
+  protected collectSeries({ labels, state }: Series<{ value: number }>): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(state.value)}`];
   }
+}
 
-  /**
-   * Observe a summary value
-   */
-  summary(name: string, value: number, labels: Record<string, string> = {}): void {
-    this.updateMetric('summary', name, value, labels);
+export class Gauge<L extends string = never> extends Metric<L, { value: number }> {
+  readonly type = 'gauge';
+
+  set(labels: LabelValues<L>, value: number): void {
+    const series = this.getSeries(labels);
+    series.state.value = value;
+    this.notify(series.labels, value);
   }
 
-  /**
-   * Get all metrics in OpenMetrics format
-   */
-  generateMetrics(): string {
+  inc(labels: LabelValues<L>, value = 1): void {
+    const series = this.getSeries(labels);
+    series.state.value += value;
+    this.notify(series.labels, series.state.value);
+  }
+
+  dec(labels: LabelValues<L>, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  protected initialState(): { value: number } {
+    return { value: 0 };
+  }
+
+  protected collectSeries({ labels, state }: Series<{ value: number }>): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(state.value)}`];
+  }
+}
+
+interface HistogramState {
+  // Non-cumulative count per bucket; the last slot is +Inf
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram<L extends string = never> extends Metric<L, HistogramState> {
+  readonly type = 'histogram';
+  readonly buckets: number[];
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly L[] | undefined,
+    collector: MetricsCollector,
+    buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, labelNames, collector);
+    this.buckets = [...new Set(buckets)].filter(Number.isFinite).sort((a, b) => a - b);
+  }
+
+  observe(labels: LabelValues<L>, value: number): void {
+    const series = this.getSeries(labels);
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    series.state.counts[index === -1 ? this.buckets.length : index] += 1;
+    series.state.sum += value;
+    series.state.count += 1;
+    this.notify(series.labels, value);
+  }
+
+  protected initialState(): HistogramState {
+    return { counts: new Array(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+  }
+
+  protected collectSeries({ labels, state }: Series<HistogramState>): string[] {
     const lines: string[] = [];
+    let cumulative = 0;
 
-    for (const [name, metric] of this.metrics.entries()) {
-      // Add help text
-      if (metric.help) {
-        lines.push(`# HELP ${name} ${metric.help}`);
-      }
+    [...this.buckets, Infinity].forEach((bound, i) => {
+      cumulative += state.counts[i];
+      const bucketLabels = formatLabels({ ...labels, le: formatValue(bound) });
+      lines.push(`${this.name}_bucket${bucketLabels} ${cumulative}`);
+    });
+
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(state.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${state.count}`);
+    return lines;
+  }
+}
+
+interface SummaryState {
+  // Observations per age bucket, keyed by the bucket's time slot
+  windows: { slot: number; values: number[] }[];
+  sum: number;
+  count: number;
+}
 
-      // Add type
-      lines.push(`# TYPE ${name} ${metric.type}`);
+export class Summary<L extends string = never> extends Metric<L, SummaryState> {
+  readonly type = 'summary';
+  readonly percentiles: number[];
+  private readonly ageBuckets: number;
+  private readonly slotMs: number;
+  private readonly pruneAgedBuckets: boolean;
 
-      // Add values
-      for (const [_labelKey, value] of metric.values.entries()) {
-        const labels = Object.entries(value.labels)
-          .map(([k, v]) => `${k}="${v}"`)
-          .join(',');
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly L[] | undefined,
+    collector: MetricsCollector,
+    options: Omit<SummaryOptions<L>, keyof MetricOptions<L>> = {}
+  ) {
+    super(name, help, labelNames, collector);
+    this.percentiles = [...(options.percentiles ?? DEFAULT_PERCENTILES)].sort((a, b) => a - b);
+    this.ageBuckets = Math.max(1, options.ageBuckets ?? DEFAULT_AGE_BUCKETS);
+    this.slotMs = ((options.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS) * 1000) / this.ageBuckets;
+    this.pruneAgedBuckets = options.pruneAgedBuckets ?? false;
+
+    if (this.percentiles.some((q) => q < 0 || q > 1)) {
+      throw new Error(`Summary ${name} percentiles must be between 0 and 1`);
+    }
+  }
 
-        const metricLine = labels ? `${name}{${labels}} ${value.value}` : `${name} ${value.value}`;
+  observe(labels: LabelValues<L>, value: number): void {
+    const series = this.getSeries(labels);
+    const slot = this.currentSlot();
+    this.expire(series.state, slot);
 
-        lines.push(metricLine);
+    let window = series.state.windows[series.state.windows.length - 1];
+    if (!window || window.slot !== slot) {
+      window = { slot, values: [] };
+      series.state.windows.push(window);
+    }
+
+    window.values.push(value);
+    series.state.sum += value;
+    series.state.count += 1;
+    this.notify(series.labels, value);
+  }
+
+  protected initialState(): SummaryState {
+    return { windows: [], sum: 0, count: 0 };
+  }
+
+  protected collectSeries({ labels, state }: Series<SummaryState>): string[] {
+    this.expire(state, this.currentSlot());
+
+    const values = state.windows.flatMap((window) => window.values).sort((a, b) => a - b);
+    const lines: string[] = [];
+
+    if (values.length > 0 || !this.pruneAgedBuckets) {
+      for (const q of this.percentiles) {
+        const quantileLabels = formatLabels({ ...labels, quantile: String(q) });
+        lines.push(`${this.name}${quantileLabels} ${formatValue(this.quantile(values, q))}`);
       }
     }
 
-    return lines.join('\n') + '\n';
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(state.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${state.count}`);
+    return lines;
+  }
+
+  private currentSlot(): number {
+    return Math.floor(Date.now() / this.slotMs);
   }
 
   /**
-   * Reset all metrics
+   * Drops age buckets that slid out of the `maxAgeSeconds` window.
    */
-  reset(): void {
-    for (const metric of this.metrics.values()) {
-      metric.values.clear();
+  private expire(state: SummaryState, slot: number): void {
+    const oldest = slot - this.ageBuckets + 1;
+    while (state.windows.length && state.windows[0].slot < oldest) {
+      state.windows.shift();
     }
   }
 
   /**
-   * Get a metric by name
+   * Nearest-rank quantile over sorted values; NaN when there are none.
    */
-  getMetric(name: string): MetricData | undefined {
-    return this.metrics.get(name);
+  private quantile(sorted: number[], q: number): number {
+    if (sorted.length === 0) return NaN;
+    const rank = Math.max(1, Math.ceil(q * sorted.length));
+    return sorted[rank - 1];
   }
+}
 
-  /**
-   * Get all metrics
-   */
-  getMetrics(): Map<string, MetricData> {
-    return new Map(this.metrics);
+type AnyMetric = Metric<string, unknown>;
+
+/**
+ * Registry of metric handles rendered in the Prometheus text exposition format.
+ * Metrics are declared once through the `create*` methods, see `metrics.catalog.util.ts`.
+ */
+export class MetricsCollector extends EventEmitter {
+  private metrics: Map<string, AnyMetric> = new Map();
+  private defaultLabels: Record<string, string> = {};
+
+  createCounter<L extends string = never>(options: MetricOptions<L>): Counter<L> {
+    return this.add(new Counter<L>(options.name, options.help, options.labelNames, this));
   }
 
-  private updateMetric(
-    type: MetricType,
-    name: string,
-    value: number,
-    labels: Record<string, string> = {}
-  ): void {
-    const metric = this.metrics.get(name);
+  createGauge<L extends string = never>(options: MetricOptions<L>): Gauge<L> {
+    return this.add(new Gauge<L>(options.name, options.help, options.labelNames, this));
+  }
 
-    if (!metric) {
-      log.warn(`Metric ${name} not registered`);
-      return;
+  createHistogram<L extends string = never>(options: HistogramOptions<L>): Histogram<L> {
+    if (options.labelNames?.includes('le' as L)) {
+      throw new Error(`Histogram ${options.name} cannot use the reserved label 'le'`);
     }
+    return this.add(
+      new Histogram<L>(options.name, options.help, options.labelNames, this, options.buckets)
+    );
+  }
 
-    if (metric.type !== type) {
-      log.warn(`Metric ${name} is not a ${type}`);
-      return;
+  createSummary<L extends string = never>(options: SummaryOptions<L>): Summary<L> {
+    if (options.labelNames?.includes('quantile' as L)) {
+      throw new Error(`Summary ${options.name} cannot use the reserved label 'quantile'`);
     }
+    return this.add(
+      new Summary<L>(options.name, options.help, options.labelNames, this, {
+        percentiles: options.percentiles,
+        maxAgeSeconds: options.maxAgeSeconds,
+        ageBuckets: options.ageBuckets,
+        pruneAgedBuckets: options.pruneAgedBuckets,
+      })
+    );
+  }
 
-    // Merge with default labels
-    const allLabels = { ...this.defaultLabels, ...labels };
-    const labelKey = this.getLabelKey(allLabels);
-
-    // Get or create the metric value
-    const existingValue = metric.values.get(labelKey) || { labels: allLabels, value: 0 };
-
-    // Update the value based on the metric type
-    switch (type) {
-      case 'counter':
-      case 'gauge':
-        existingValue.value = type === 'gauge' ? value : existingValue.value + value;
-        break;
-
-      case 'histogram':
-      case 'summary':
-        // For simplicity, we're just tracking the last value
-        // In a real implementation, you'd want to track more statistics
-        existingValue.value = value;
-        break;
-    }
+  /**
+   * Set default labels for all metrics. Only affects series created afterwards.
+   */
+  setDefaultLabels(labels: Record<string, string>): void {
+    this.defaultLabels = { ...labels };
+  }
 
-    // Update the timestamp
-    existingValue.timestamp = Date.now();
+  getDefaultLabels(): Record<string, string> {
+    return this.defaultLabels;
+  }
 
-    // Store the updated value
-    metric.values.set(labelKey, existingValue);
+  /**
+   * Get all metrics in the Prometheus text exposition format
+   */
+  generateMetrics(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.collect());
+    }
+    return lines.join('\n') + '\n';
+  }
 
-    // Emit an event for the update
-    this.emit('metricUpdate', {
-      name,
-      type,
-      value: existingValue.value,
-      labels: allLabels,
-      timestamp: existingValue.timestamp,
-    });
+  /**
+   * Reset all metrics
+   */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
   }
 
-  private getLabelKey(labels: Record<string, string>): string {
-    return Object.entries(labels)
-      .sort(([a], [b]) => a.localeCompare(b))
-      .map(([k, v]) => `${k}:${v}`)
-      .join(',');
+  /**
+   * Get a metric by name
+   */
+  getMetric(name: string): AnyMetric | undefined {
+    return this.metrics.get(name);
   }
-}
 
-// Default metrics collector instance
-export const metrics = new MetricsCollector();
+  private add<M extends AnyMetric>(metric: M): M {
+    if (!METRIC_NAME.test(metric.name)) {
+      throw new Error(`Invalid metric name: ${metric.name}`);
+    }
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} already registered`);
+    }
+    const invalidLabel = metric.labelNames.find((labelName) => !LABEL_NAME.test(labelName));
+    if (invalidLabel) {
+      throw new Error(`Invalid label name '${invalidLabel}' for metric ${metric.name}`);
+    }
 
-// Register default metrics
-metrics.register({
-  type: 'counter',
-  name: 'http_requests_total',
-  help: 'Total number of HTTP requests',
-  labelNames: ['method', 'path', 'status'],
-});
-
-metrics.register({
-  type: 'histogram',
-  name: 'http_request_duration_seconds',
-  help: 'HTTP request duration in seconds',
-  labelNames: ['method', 'path', 'status'],
-  buckets: [0.1, 0.5, 1, 2.5, 5, 10],
-});
-
-metrics.register({
-  type: 'gauge',
-  name: 'nodejs_memory_usage_bytes',
-  help: 'Node.js memory usage in bytes',
-  labelNames: ['type'],
-});
-
-// Update memory usage periodically
-if (typeof process !== 'undefined') {
-  setInterval(() => {
-    const memoryUsage = process.memoryUsage();
-    Object.entries(memoryUsage).forEach(([type, value]) => {
-      metrics.gauge('nodejs_memory_usage_bytes', value, { type });
-    });
-  }, 10000).unref(); // Every 10 seconds
+    this.metrics.set(metric.name, metric);
+    log.debug(`Registered metric: ${metric.name} (${metric.type})`);
+    return metric;
+  }
 }
 
-/**
- * Middleware to track HTTP request metrics
- * Note: node-fetch's Response does not support 'finish' event.
- * You may need to adapt this for your framework (e.g., Express).
- */
-export function httpMetricsMiddleware(req: Request, res: Response, next: () => void): void {
-  const startTime = process.hrtime();
-
-  // Call next and then track metrics after response is sent
-  // This assumes next() returns a Promise or you can wrap response sending logic
-  Promise.resolve()
-    .then(() => next())
-    .finally(() => {
-      const duration = process.hrtime(startTime);
-      const durationInMs = duration[0] * 1000 + duration[1] / 1e6;
-
-      metrics.counter('http_requests_total', 1, {
-        method: req.method,
-        path: req.url,
-        status: res.status.toString(),
-      });
-
-      metrics.histogram('http_request_duration_seconds', durationInMs / 1000, {
-        method: req.method,
-        path: req.url,
-        status: res.status.toString(),
-      });
-    });
-}
+// Default metrics collector instance
+export const metrics = new MetricsCollector();
@@ -0,0 +1,78 @@
+import { Form, Notifier, NotifierStrategyKey } from '../types/types';
+
+/**
+ * `customVars` keys holding credentials; their values are never returned by the API.
+ */
+const SECRET_CUSTOM_VARS = [
+  'secret',
+  'botToken',
+  'routingKey',
+  'appToken',
+  'userKey',
+  'accessToken',
+];
+
+/**
+ * Strategies whose `webhookUrl` carries the token that authorizes posting to it.
+ */
+const SECRET_WEBHOOK_STRATEGIES: NotifierStrategyKey[] = [
+  'discord',
+  'slack',
+  'teams',
+  'google-chat',
+];
+
+export const REDACTED = '[redacted]';
+
+/**
+ * Replaces notifier credentials with a placeholder: secret `customVars`, custom webhook
+ * header values and the webhook URL of chat integrations.
+ */
+export function redactNotifier(notifier: Notifier): Notifier {
+  const customVars: Record<string, unknown> = { ...notifier.customVars };
+
+  for (const key of SECRET_CUSTOM_VARS) {
+    if (customVars[key] !== undefined) customVars[key] = REDACTED;
+  }
+  if (customVars.headers && typeof customVars.headers === 'object') {
+    customVars.headers = Object.fromEntries(
+      Object.keys(customVars.headers).map((name) => [name, REDACTED])
+    );
+  }
+
+  const secretUrl = notifier.webhookUrl && SECRET_WEBHOOK_STRATEGIES.includes(notifier.strategy);
+  return { ...notifier, customVars, ...(secretUrl && { webhookUrl: REDACTED }) };
+}
+
+/**
+ * Redacts the notifiers of a form, if it was loaded with them.
+ */
+export function redactFormNotifiers(form: Form): Form {
+  return form.notifiers ? { ...form, notifiers: form.notifiers.map(redactNotifier) } : form;
+}
+
+/**
+ * Keeps the stored value for secrets sent back as the placeholder, so a client can
+ * PATCH `customVars` it read from the API without wiping the credentials.
+ */
+export function restoreRedacted(
+  customVars: Record<string, unknown>,
+  existing: Record<string, unknown>
+): Record<string, unknown> {
+  const restored: Record<string, unknown> = { ...customVars };
+
+  for (const key of SECRET_CUSTOM_VARS) {
+    if (restored[key] === REDACTED) restored[key] = existing[key];
+  }
+  if (restored.headers && typeof restored.headers === 'object') {
+    const previous = (existing.headers ?? {}) as Record<string, unknown>;
+    restored.headers = Object.fromEntries(
+      Object.entries(restored.headers).map(([name, value]) => [
+        name,
+        value === REDACTED ? previous[name] : value,
+      ])
+    );
+  }
+
+  return restored;
+}
@@ -2,15 +2,33 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 
-import * as Handlebars from 'handlebars';
+// Handlebars is CommonJS; under native ESM only the default export carries `compile`
+import Handlebars from 'handlebars';
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 import { NotFoundError } from '@src/core/custom.errors';
 
 import { NotificationPayload, TemplateData } from '../types/notification.types';
+import { Form, Notifier } from '../types/types';
 
 const templatesDir = path.resolve(__dirname, '../../infrastructure/notifiers/templates');
 
+const handlebars = Handlebars.create();
+
+// `{{json value}}` writes a JSON literal, for templates that render JSON
+handlebars.registerHelper(
+  'json',
+  (value: unknown) => new handlebars.SafeString(JSON.stringify(value ?? null))
+);
+
+// `{{or a b "fallback"}}` returns the first truthy argument
+handlebars.registerHelper('or', (...args: unknown[]) => args.slice(0, -1).find(Boolean) ?? '');
+
+// `{{escapeHtml value}}` for channels that render HTML, since channel templates don't escape
+handlebars.registerHelper('escapeHtml', (value: unknown) =>
+  handlebars.escapeExpression(String(value ?? ''))
+);
+
 /**
  * Loads, compiles, and renders a Handlebars template.
  * @param templateName The name of the template file (without the .hbs extension).
@@ -26,29 +44,122 @@ export const renderTemplate = (templateName: string, data: unknown): string => {
   }
 
   const templateSource = fs.readFileSync(templatePath, 'utf-8');
-  const compiledTemplate = Handlebars.compile(templateSource);
+  const compiledTemplate = handlebars.compile(templateSource);
   const html = compiledTemplate(data);
 
   return html;
 };
 
-export const buildEmailContent = (payload: NotificationPayload): TemplateData => {
-  const html = renderTemplate(payload.template, payload.data);
-
-  let subject = '';
+/**
+ * One-line title for a notification, used as email subject and chat message heading.
+ */
+export const buildSubject = (payload: NotificationPayload): string => {
   switch (payload.template) {
     case 'change-notification':
-      subject = `Form Update: ${payload.data.siteName}`;
-      break;
+      return `Form Update: ${payload.data.siteName}`;
     case 'site-not-working':
-      subject = `[Action Required] Site Not Working: ${payload.data.siteName}`;
-      break;
+      return `[Action Required] Site Not Working: ${payload.data.siteName}`;
+    case 'site-recovered':
+      return `[Resolved] Site Back Online: ${payload.data.siteName}`;
     case 'daily-notification-limit-reached':
-      subject = `[Notice] Daily Notification Limit Reached for ${payload.data.siteName}`;
-      break;
+      return `[Notice] Daily Notification Limit Reached for ${payload.data.siteName}`;
     default:
-      subject = 'Form Watcher Notification';
+      return 'Form Watcher Notification';
+  }
+};
+
+/**
+ * Human-readable form status for chat messages.
+ */
+export const formatStatus = (status: NotificationPayload['data']['status']): string => {
+  switch (status) {
+    case 'open':
+      return '✅ Open';
+    case 'closed':
+      return '❌ Closed';
+    default:
+      return '❔ Unknown';
+  }
+};
+
+export const buildEmailContent = (payload: NotificationPayload): TemplateData => {
+  const html = renderTemplate(payload.template, payload.data);
+  return { subject: buildSubject(payload), html };
+};
+
+/**
+ * Data available to chat channel templates: the payload fields plus a title, a status
+ * label, a Markdown link to the form and the notifier's `customVars` as `vars`
+ * (e.g. `{{vars.mention}}`).
+ */
+export interface ChannelTemplateContext extends Omit<NotificationPayload['data'], 'status'> {
+  template: NotificationPayload['template'];
+  title: string;
+  status: string;
+  statusLabel: string;
+  timestamp: string;
+  form: { id: string; name: string; url: string };
+  formLink: string;
+  vars: Record<string, unknown>;
+}
+
+export const buildChannelContext = (
+  form: Form,
+  payload: NotificationPayload,
+  notifier?: Notifier
+): ChannelTemplateContext => ({
+  ...payload.data,
+  template: payload.template,
+  title: buildSubject(payload),
+  status: payload.data.status ?? 'unknown',
+  statusLabel: formatStatus(payload.data.status),
+  timestamp: payload.data.checkedAt ?? new Date().toISOString(),
+  form: { id: form.id, name: form.name, url: form.url },
+  formLink: `[${form.name}](${form.url})`,
+  vars: notifier?.customVars ?? {},
+});
+
+/**
+ * Per-notifier template source: `customVars.templates[<template>]`, then
+ * `customVars.templates.default`, then `customVars.template`.
+ */
+const overrideSource = (template: string, notifier?: Notifier): string | undefined => {
+  const { templates, template: single } = notifier?.customVars ?? {};
+  const byName =
+    templates && typeof templates === 'object'
+      ? ((templates as Record<string, unknown>)[template] ??
+        (templates as Record<string, unknown>).default)
+      : undefined;
+
+  return [byName, single].find((source): source is string => typeof source === 'string');
+};
+
+/**
+ * Renders a chat message for a channel such as `slack` or `discord.json`. The first
+ * template found is used:
+ * 1. the notifier's override from `customVars` (see `overrideSource`)
+ * 2. `<template>.<channel>.hbs`, e.g. `change-notification.slack.hbs`
+ * 3. `default.<channel>.hbs`
+ * Output is not HTML-escaped; use `{{escapeHtml}}` or `{{json}}` where the channel needs it.
+ * @returns The rendered text, or undefined if the channel has no template.
+ */
+export const renderChannelTemplate = (
+  channel: string,
+  form: Form,
+  payload: NotificationPayload,
+  notifier?: Notifier
+): string | undefined => {
+  let source = overrideSource(payload.template, notifier);
+
+  if (source === undefined) {
+    const templatePath = [`${payload.template}.${channel}.hbs`, `default.${channel}.hbs`]
+      .map((file) => path.join(templatesDir, file))
+      .find((file) => fs.existsSync(file));
+    if (!templatePath) return undefined;
+
+    source = fs.readFileSync(templatePath, 'utf-8');
   }
 
-  return { subject, html };
+  const compiledTemplate = handlebars.compile(source, { noEscape: true });
+  return compiledTemplate(buildChannelContext(form, payload, notifier)).trim();
 };